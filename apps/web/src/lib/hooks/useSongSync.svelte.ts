@@ -1,11 +1,14 @@
 /**
- * Svelte 5 hook for managing Yjs document sync for a song.
+ * Svelte 5 hook for managing Yjs document sync for a song arrangement.
  *
- * Uses y-indexeddb for local persistence and optionally connects
- * to remote peers via WebRTC or Supabase.
+ * Edits the arrangement's text in the song's SongDoc (persisted with
+ * y-indexeddb by songDocStore) and optionally connects to remote peers
+ * via WebRTC.
  */
 
-import * as Y from 'yjs';
+import type * as Y from 'yjs';
+import { SongDoc, updateText } from '@gigwidget/core';
+import { openSongDoc, releaseSongDoc } from '$lib/stores/songDocStore';
 
 export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
 
@@ -27,11 +30,13 @@ export interface SongSyncActions {
  * Creates a reactive song sync state using Yjs for real-time collaboration.
  *
  * @param songId - The unique song ID (used for doc naming)
- * @param initialContent - Initial content if doc is new
+ * @param arrangementId - The arrangement whose content is edited
+ * @param initialContent - Content shown until the document has loaded
  * @returns Tuple of [state, actions]
  */
 export function useSongSync(
   songId: string,
+  arrangementId: string,
   initialContent: string = ''
 ): [SongSyncState, SongSyncActions] {
   // Reactive state using Svelte 5 runes
@@ -43,43 +48,34 @@ export function useSongSync(
   // Yjs document and providers
   let doc: Y.Doc | null = null;
   let text: Y.Text | null = null;
-  let indexeddbProvider: any = null;
   let webrtcProvider: any = null;
+  let destroyed = false;
 
-  // Initialize the Yjs document
+  // Open the song's document
   async function init() {
     if (doc) return;
 
-    doc = new Y.Doc();
-    text = doc.getText('content');
-
-    // Set initial content if text is empty
-    if (text.length === 0 && initialContent) {
-      text.insert(0, initialContent);
-    }
-
-    // Sync content state with Y.Text
-    content = text.toString();
-
-    // Listen to changes
-    text.observe(() => {
-      content = text?.toString() ?? '';
-    });
-
-    // Set up local persistence with y-indexeddb
     try {
-      const { IndexeddbPersistence } = await import('@gigwidget/sync');
-      indexeddbProvider = new IndexeddbPersistence(`song-${songId}`, doc);
+      const opened = await openSongDoc(songId);
+      if (destroyed) {
+        releaseSongDoc(songId);
+        return;
+      }
 
-      indexeddbProvider.on('synced', () => {
-        // Update content after loading from IndexedDB
+      doc = opened;
+      text = SongDoc.getArrangementContent(doc, arrangementId);
+      content = text.toString();
+
+      // Listen to changes
+      text.observe(() => {
         content = text?.toString() ?? '';
-        if (status === 'offline') {
-          status = 'synced';
-        }
       });
+
+      if (status === 'offline') {
+        status = 'synced';
+      }
     } catch (err) {
-      console.error('Failed to initialize IndexedDB persistence:', err);
+      console.error('Failed to open song document:', err);
       error = 'Failed to initialize local storage';
     }
   }
@@ -129,13 +125,12 @@ export function useSongSync(
     status = 'offline';
   }
 
-  // Update content
+  // Update content (only the changed range, so concurrent edits merge)
   function setContent(newContent: string) {
     if (!text || !doc) return;
 
     doc.transact(() => {
-      text!.delete(0, text!.length);
-      text!.insert(0, newContent);
+      updateText(text!, newContent);
     });
   }
 
@@ -151,13 +146,10 @@ export function useSongSync(
     init();
 
     return () => {
+      destroyed = true;
       disconnect();
-      if (indexeddbProvider) {
-        indexeddbProvider.destroy();
-        indexeddbProvider = null;
-      }
       if (doc) {
-        doc.destroy();
+        releaseSongDoc(songId);
         doc = null;
         text = null;
       }
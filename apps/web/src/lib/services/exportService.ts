@@ -5,7 +5,13 @@
  * Supports single song, multi-song zip, and multi-page PDF exports.
  */
 
-import type { Song } from '@gigwidget/core';
+import type { Song, ChordProLine } from '@gigwidget/core';
+import {
+  parseChordPro,
+  extractChords,
+  getPreferredInstruments,
+  selectArrangementForInstruments,
+} from '@gigwidget/core';
 
 // ============================================================================
 // Types
@@ -49,28 +55,28 @@ function triggerDownload(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
-function extractChordsFromContent(content: string): string[] {
-  const chordMatches = content.matchAll(/\[([^\]]+)\]/g);
-  const chords = new Set<string>();
-  for (const match of chordMatches) {
-    const name = match[1].trim();
-    if (name && !name.includes(':')) {
-      chords.add(name);
-    }
-  }
-  return Array.from(chords);
-}
-
 // ============================================================================
 // Data Loading
 // ============================================================================
 
+/**
+ * Load songs for export, each with the arrangement for the given
+ * instruments (default: the user's preferred instruments).
+ */
 export async function prepareSongDataForExport(
   songIds: string[],
   sortOrder: ExportSortOrder,
   setOrder?: string[],
+  instruments?: string[],
 ): Promise<ExportSongData[]> {
-  const { SongRepository, ArrangementRepository } = await import('@gigwidget/db');
+  const { SongRepository, ArrangementRepository, getDatabase } = await import('@gigwidget/db');
+
+  if (!instruments) {
+    const db = getDatabase();
+    const [user] = await db.users.toArray();
+    const prefs = user ? await db.userPreferences.get(user.id) : undefined;
+    instruments = getPreferredInstruments(user, prefs);
+  }
 
   const items: ExportSongData[] = [];
 
@@ -79,7 +85,7 @@ export async function prepareSongDataForExport(
     if (!song) continue;
 
     const arrangements = await ArrangementRepository.getBySong(songId);
-    const content = arrangements[0]?.content || '';
+    const content = selectArrangementForInstruments(arrangements, instruments)?.content || '';
 
     items.push({ song, content });
   }
@@ -245,7 +251,7 @@ async function renderSongToPdf(
 
   // --- Chord diagrams (at top, wrapping rows) ---
   if (options.includeChordDiagrams) {
-    const chords = extractChordsFromContent(data.content);
+    const chords = extractChords(data.content);
     if (chords.length > 0) {
       await renderChordDiagramsAtTop(doc, chords, cursor, contentWidth, options.instrumentId);
     }
@@ -253,112 +259,116 @@ async function renderSongToPdf(
 
   cursor.y += HEADER_BOTTOM_GAP;
 
-  // --- Parse ChordPro content ---
-  const { ChordProParser } = await import('chordsheetjs');
-  const parser = new ChordProParser();
-  const parsed = parser.parse(data.content);
+  // --- Walk ChordPro content ---
+  const parsed = parseChordPro(data.content);
 
-  // Walk through body paragraphs
-  for (const paragraph of parsed.bodyParagraphs) {
-    const sectionType = paragraph.type;
+  for (const node of parsed.nodes) {
+    if (node.type !== 'section') {
+      renderLineToPdf(cursor, node);
+      continue;
+    }
 
     // Section label
-    if (sectionType && sectionType !== 'none') {
-      const label = sectionType.charAt(0).toUpperCase() + sectionType.slice(1);
-      checkPageBreak(cursor, SECTION_GAP + SECTION_LABEL_SIZE + 4);
-      cursor.y += SECTION_GAP;
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(SECTION_LABEL_SIZE);
-      doc.text(label, MARGIN_L, cursor.y);
-      cursor.y += SECTION_LABEL_SIZE + 4;
+    const label = node.label || node.kind.charAt(0).toUpperCase() + node.kind.slice(1);
+    checkPageBreak(cursor, SECTION_GAP + SECTION_LABEL_SIZE + 4);
+    cursor.y += SECTION_GAP;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(SECTION_LABEL_SIZE);
+    doc.text(label, MARGIN_L, cursor.y);
+    cursor.y += SECTION_LABEL_SIZE + 4;
+
+    for (const line of node.lines) {
+      renderLineToPdf(cursor, line);
     }
+  }
+}
 
-    for (const line of paragraph.lines) {
-      // Collect chord-lyric pairs from this line
-      const pairs: { chord: string; lyric: string }[] = [];
-      let hasChords = false;
-
-      for (const item of line.items) {
-        if ('chords' in item && 'lyrics' in item) {
-          // ChordLyricsPair
-          const chord = (item as any).chords || '';
-          const lyric = (item as any).lyrics || '';
-          pairs.push({ chord, lyric });
-          if (chord) hasChords = true;
-        } else if ('name' in item && (item as any).isSectionDelimiter?.()) {
-          // Section delimiter tag — already handled at paragraph level
-        } else if ('name' in item && (item as any).isMetaTag?.()) {
-          // Skip metadata tags
-        } else if ('content' in item && typeof (item as any).content === 'string') {
-          // Comment
-          const commentText = (item as any).content;
-          if (commentText) {
-            checkPageBreak(cursor, LYRIC_SIZE + LINE_GAP);
-            doc.setFont('helvetica', 'italic');
-            doc.setFontSize(LYRIC_SIZE);
-            doc.text(commentText, MARGIN_L, cursor.y);
-            cursor.y += LYRIC_SIZE + LINE_GAP;
-          }
-        }
-      }
+const COMMENT_DIRECTIVES = ['comment', 'comment_italic', 'comment_box', 'highlight'];
 
-      if (pairs.length === 0) continue;
+function renderLineToPdf(cursor: PdfCursor, line: ChordProLine): void {
+  const { doc } = cursor;
 
-      // Calculate line height
-      const lineHeight = hasChords
-        ? CHORD_SIZE + 2 + LYRIC_SIZE + LINE_GAP
-        : LYRIC_SIZE + LINE_GAP;
+  // Comment directives render as italic text; other directives are metadata
+  if (line.type === 'directive') {
+    const commentText = line.value?.trim();
+    if (COMMENT_DIRECTIVES.includes(line.canonicalName) && commentText) {
+      checkPageBreak(cursor, LYRIC_SIZE + LINE_GAP);
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(LYRIC_SIZE);
+      doc.text(commentText, MARGIN_L, cursor.y);
+      cursor.y += LYRIC_SIZE + LINE_GAP;
+    }
+    return;
+  }
 
-      checkPageBreak(cursor, lineHeight);
+  // Tabs and grids keep their monospaced layout
+  if (line.type === 'tab' || line.type === 'grid') {
+    checkPageBreak(cursor, CHORD_SIZE + LINE_GAP);
+    doc.setFont('courier', 'normal');
+    doc.setFontSize(CHORD_SIZE);
+    doc.text(line.text, MARGIN_L, cursor.y);
+    cursor.y += CHORD_SIZE + LINE_GAP;
+    return;
+  }
 
-      // Render chords row
-      if (hasChords) {
-        doc.setFont('courier', 'bold');
-        doc.setFontSize(CHORD_SIZE);
+  if (line.type !== 'lyrics') return;
 
-        let x = MARGIN_L;
-        for (const pair of pairs) {
-          if (pair.chord) {
-            doc.text(pair.chord, x, cursor.y);
-          }
-          // Advance x by the lyric width (so chords align above their lyrics)
-          doc.setFont('helvetica', 'normal');
-          doc.setFontSize(LYRIC_SIZE);
-          const lyricWidth = pair.lyric ? doc.getTextWidth(pair.lyric) : 0;
-          doc.setFont('courier', 'bold');
-          doc.setFontSize(CHORD_SIZE);
-          const chordWidth = pair.chord ? doc.getTextWidth(pair.chord) : 0;
-          x += Math.max(lyricWidth, chordWidth + 4);
-        }
-        cursor.y += CHORD_SIZE + 2;
-      }
+  // Annotations like [*Riff] print without their marker
+  const pairs = line.pairs.map((pair) => ({ chord: (pair.chord ?? '').replace(/^\*/, ''), lyric: pair.lyrics }));
+  const hasChords = pairs.some((pair) => pair.chord);
+
+  // Calculate line height
+  const lineHeight = hasChords
+    ? CHORD_SIZE + 2 + LYRIC_SIZE + LINE_GAP
+    : LYRIC_SIZE + LINE_GAP;
+
+  checkPageBreak(cursor, lineHeight);
 
-      // Render lyrics row
+  // Render chords row
+  if (hasChords) {
+    doc.setFont('courier', 'bold');
+    doc.setFontSize(CHORD_SIZE);
+
+    let x = MARGIN_L;
+    for (const pair of pairs) {
+      if (pair.chord) {
+        doc.text(pair.chord, x, cursor.y);
+      }
+      // Advance x by the lyric width (so chords align above their lyrics)
       doc.setFont('helvetica', 'normal');
       doc.setFontSize(LYRIC_SIZE);
+      const lyricWidth = pair.lyric ? doc.getTextWidth(pair.lyric) : 0;
+      doc.setFont('courier', 'bold');
+      doc.setFontSize(CHORD_SIZE);
+      const chordWidth = pair.chord ? doc.getTextWidth(pair.chord) : 0;
+      x += Math.max(lyricWidth, chordWidth + 4);
+    }
+    cursor.y += CHORD_SIZE + 2;
+  }
 
-      const fullLyric = pairs.map(p => p.lyric || '').join('');
-      if (fullLyric.trim()) {
-        let x = MARGIN_L;
-        for (const pair of pairs) {
-          const text = pair.lyric || '';
-          if (text) {
-            doc.text(text, x, cursor.y);
-            x += doc.getTextWidth(text);
-          } else {
-            // No lyrics but had a chord — advance by chord width
-            doc.setFont('courier', 'bold');
-            doc.setFontSize(CHORD_SIZE);
-            x += pair.chord ? doc.getTextWidth(pair.chord) + 4 : 0;
-            doc.setFont('helvetica', 'normal');
-            doc.setFontSize(LYRIC_SIZE);
-          }
-        }
+  // Render lyrics row
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(LYRIC_SIZE);
+
+  const fullLyric = pairs.map(p => p.lyric || '').join('');
+  if (fullLyric.trim()) {
+    let x = MARGIN_L;
+    for (const pair of pairs) {
+      const text = pair.lyric || '';
+      if (text) {
+        doc.text(text, x, cursor.y);
+        x += doc.getTextWidth(text);
+      } else {
+        // No lyrics but had a chord — advance by chord width
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(CHORD_SIZE);
+        x += pair.chord ? doc.getTextWidth(pair.chord) + 4 : 0;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(LYRIC_SIZE);
       }
-      cursor.y += LYRIC_SIZE + LINE_GAP;
     }
   }
-
+  cursor.y += LYRIC_SIZE + LINE_GAP;
 }
 
 /**
@@ -0,0 +1,225 @@
+/**
+ * Library Document Store
+ *
+ * Each signed-in user has one library Y.Doc (createLibraryDoc) holding
+ * references to their songs and collections, tombstones for deleted ones
+ * (and for deleted arrangements), and the tags in use. It is persisted with y-indexeddb and synced between
+ * devices with SupabaseProvider, so a delete made on one device (even
+ * offline) reaches the others and the deleted song isn't pushed back to
+ * the cloud by a device that still has it.
+ */
+
+import type * as Y from 'yjs';
+import type { Song, SongSet } from '@gigwidget/core';
+import { getSupabaseClient } from './supabaseStore';
+import { deleteSongDoc, removeArrangementFromDoc } from './songDocStore';
+
+interface LibrarySync {
+  userId: string;
+  doc: Y.Doc;
+  persistence: { destroy: () => Promise<void> | void };
+  provider: {
+    connect: () => Promise<void>;
+    saveSnapshot: () => Promise<void>;
+    destroy: () => void;
+  };
+}
+
+let library: LibrarySync | null = null;
+
+// ============================================================================
+// Start / Stop
+// ============================================================================
+
+/**
+ * Open the user's library document and connect it to the cloud.
+ * Tombstones arriving from other devices delete the local copies.
+ */
+export async function startLibrarySync(supabaseUserId: string): Promise<Y.Doc> {
+  if (library?.userId === supabaseUserId) return library.doc;
+  await stopLibrarySync();
+
+  const { createLibraryDoc, LibraryDoc } = await import('@gigwidget/core');
+  const { IndexeddbPersistence, SupabaseProvider } = await import('@gigwidget/sync');
+
+  const doc = createLibraryDoc(supabaseUserId);
+  const persistence = new IndexeddbPersistence(doc.guid, doc);
+  await persistence.whenSynced;
+
+  // Stored as <userId>/library.yjs, so storage policies can match on the
+  // folder; updates go over the private channel yjs:<userId>/library, which
+  // a realtime.messages policy keeps to the user
+  const provider = new SupabaseProvider(doc, {
+    supabase: getSupabaseClient(),
+    roomName: `${supabaseUserId}/library`,
+  });
+
+  LibraryDoc.getTombstones(doc).observe((event) => {
+    if (event.transaction.local) return;
+    const deleted = [...event.keysChanged].filter((id) => LibraryDoc.isDeleted(doc, id));
+    if (deleted.length > 0) {
+      removeDeletedLocally(deleted).catch((err) =>
+        console.error('[Library] Failed to remove deleted items:', err)
+      );
+    }
+  });
+
+  LibraryDoc.getSongs(doc).observeDeep((events) => {
+    if (events[0]?.transaction.local) return;
+    const changed = new Set<string>();
+    for (const event of events) {
+      if (event.target === LibraryDoc.getSongs(doc)) {
+        for (const key of (event as Y.YMapEvent<Y.Map<unknown>>).keysChanged) changed.add(key);
+      } else {
+        const key = event.path[0];
+        if (typeof key === 'string') changed.add(key);
+      }
+    }
+    applyRemoteSongRefs(doc, [...changed]).catch((err) =>
+      console.error('[Library] Failed to apply library changes:', err)
+    );
+  });
+
+  library = { userId: supabaseUserId, doc, persistence, provider };
+  await provider.connect();
+  console.log('[Library] Library document connected');
+  return doc;
+}
+
+/**
+ * Save the library document to the cloud and disconnect.
+ */
+export async function stopLibrarySync(): Promise<void> {
+  if (!library) return;
+  const { provider, persistence, doc } = library;
+  library = null;
+
+  try {
+    await provider.saveSnapshot();
+  } catch (err) {
+    console.error('[Library] Failed to save library before disconnecting:', err);
+  }
+  provider.destroy();
+  await persistence.destroy();
+  doc.destroy();
+}
+
+/** The connected library document, or null when signed out */
+export function getLibraryDoc(): Y.Doc | null {
+  return library?.doc ?? null;
+}
+
+// ============================================================================
+// Recording Changes
+// ============================================================================
+
+export async function recordSong(song: Song): Promise<void> {
+  if (!library) return;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  LibraryDoc.putSong(library.doc, song);
+}
+
+export async function recordCollection(set: SongSet): Promise<void> {
+  if (!library) return;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  LibraryDoc.putCollection(library.doc, set);
+}
+
+/**
+ * Leave tombstones for deleted songs. Saved to the cloud right away, since
+ * other devices check them before pushing their copies.
+ */
+export async function recordSongsDeleted(songIds: string[]): Promise<void> {
+  if (!library || songIds.length === 0) return;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  const { doc } = library;
+  doc.transact(() => {
+    for (const id of songIds) LibraryDoc.deleteSong(doc, id);
+  });
+  await saveLibrary();
+}
+
+/**
+ * Leave tombstones for deleted arrangements, so other devices remove their
+ * copies instead of pushing them back.
+ */
+export async function recordArrangementsDeleted(arrangementIds: string[]): Promise<void> {
+  if (!library || arrangementIds.length === 0) return;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  const { doc } = library;
+  doc.transact(() => {
+    for (const id of arrangementIds) LibraryDoc.deleteArrangement(doc, id);
+  });
+  await saveLibrary();
+}
+
+export async function recordCollectionDeleted(setId: string): Promise<void> {
+  if (!library) return;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  LibraryDoc.deleteCollection(library.doc, setId);
+  await saveLibrary();
+}
+
+/** Whether a song, arrangement or collection was deleted on any device */
+export async function isDeletedInLibrary(id: string): Promise<boolean> {
+  if (!library) return false;
+  const { LibraryDoc } = await import('@gigwidget/core');
+  return LibraryDoc.isDeleted(library.doc, id);
+}
+
+async function saveLibrary(): Promise<void> {
+  try {
+    await library?.provider.saveSnapshot();
+  } catch (err) {
+    // The provider's auto-save retries
+    console.error('[Library] Failed to save library:', err);
+  }
+}
+
+async function removeDeletedLocally(ids: string[]): Promise<void> {
+  const { getDatabase, SongSetRepository } = await import('@gigwidget/db');
+  const db = getDatabase();
+
+  for (const id of ids) {
+    const arrangement = await db.arrangements.get(id);
+    if (await db.songs.get(id)) {
+      console.log(`[Library] Song ${id} was deleted on another device`);
+      await deleteSongDoc(id);
+    } else if (arrangement) {
+      console.log(`[Library] Arrangement ${id} was deleted on another device`);
+      await removeArrangementFromDoc(arrangement.songId, id);
+    } else if (await db.songSets.get(id)) {
+      console.log(`[Library] Collection ${id} was deleted on another device`);
+      await SongSetRepository.delete(id);
+    }
+  }
+}
+
+/**
+ * Apply renames and retags made on another device to local songs whose
+ * reference is newer than the local record.
+ */
+async function applyRemoteSongRefs(doc: Y.Doc, songIds: string[]): Promise<void> {
+  const { LibraryDoc } = await import('@gigwidget/core');
+  const { getDatabase } = await import('@gigwidget/db');
+  const db = getDatabase();
+  const songs = LibraryDoc.getSongs(doc);
+
+  for (const id of songIds) {
+    const ref = songs.get(id);
+    if (!ref) continue;
+
+    const local = await db.songs.get(id);
+    const updatedAt = ref.get('updatedAt') as number;
+    if (!local || new Date(local.updatedAt).getTime() >= updatedAt) continue;
+
+    // Keeps the reference's timestamp, so the rename isn't pushed back as a local edit
+    await db.songs.update(id, {
+      title: ref.get('title') as string,
+      artist: (ref.get('artist') as string | null) ?? undefined,
+      key: (ref.get('key') as Song['key'] | null) ?? undefined,
+      tags: (ref.get('tags') as string[] | undefined) ?? local.tags,
+      updatedAt: new Date(updatedAt),
+    });
+  }
+}
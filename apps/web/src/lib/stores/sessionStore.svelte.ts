@@ -5,7 +5,9 @@
  * Uses Svelte 5 runes with a singleton pattern for global access.
  */
 
-import type { User, Song, QRSessionPayload, BootstrapSessionPayload, SongManifestEntry, SessionParticipantInfo } from '@gigwidget/core';
+import type { User, Song, Arrangement, Session, SessionParticipant, SongSet, QRSessionPayload, BootstrapSessionPayload, SongManifestEntry, SessionParticipantInfo, SessionType, SessionRole, SessionPermission, SessionNowPlaying, SessionQueue, SessionMessage } from '@gigwidget/core';
+import { hasSessionPermission } from '@gigwidget/core';
+import type { PrefetchProgress, SessionTranscript } from '@gigwidget/sync';
 
 export type SessionStatus = 'disconnected' | 'connecting' | 'connected';
 
@@ -14,6 +16,8 @@ export interface SessionState {
   isActive: boolean;
   /** Whether the current user is the host */
   isHosting: boolean;
+  /** The current user's role, as granted by the host */
+  role: SessionRole;
   /** Current session connection status */
   status: SessionStatus;
   /** Number of connected peers */
@@ -24,25 +28,59 @@ export interface SessionState {
   qrPayload: QRSessionPayload | null;
   /** QR code data URL (host only) */
   qrDataUrl: string | null;
+  /**
+   * Link to the app served by the local network relay, with the session
+   * in its hash (host of a local network session only). Browsers can only
+   * reach the relay from a page it served; null when it doesn't serve the app.
+   */
+  relayJoinUrl: string | null;
   /** Whether the session panel is minimized */
   isMinimized: boolean;
   /** Error message if any */
   error: string | null;
   /** Whether the user was ejected by the host */
   wasEjected: boolean;
+  /** Song the session leader is playing */
+  nowPlaying: SessionNowPlaying | null;
+  /** Whether this device navigates to the leader's song */
+  followLeader: boolean;
+  /** Setlist queue attached to the session */
+  queue: SessionQueue | null;
+  /** Chat messages, song requests and reactions, oldest first */
+  messages: SessionMessage[];
+  /** Participants the host has muted */
+  mutedUserIds: string[];
+  /** Progress of downloading every chart for offline use (joiner) */
+  prefetch: PrefetchState | null;
+  /** Session whose history was saved most recently, for its summary */
+  lastEndedSessionId: string | null;
+}
+
+export interface PrefetchState extends PrefetchProgress {
+  running: boolean;
 }
 
 // Singleton state - persists across navigation
 let isActive = $state(false);
 let isHosting = $state(false);
+let role = $state<SessionRole>('follower');
 let status = $state<SessionStatus>('disconnected');
 let peerCount = $state(0);
 let participants = $state<SessionParticipantInfo[]>([]);
 let qrPayload = $state<QRSessionPayload | null>(null);
 let qrDataUrl = $state<string | null>(null);
+let relayJoinUrl = $state<string | null>(null);
 let isMinimized = $state(false);
 let error = $state<string | null>(null);
 let wasEjected = $state(false);
+let nowPlaying = $state<SessionNowPlaying | null>(null);
+let followLeader = $state(true);
+let queue = $state<SessionQueue | null>(null);
+let messages = $state<SessionMessage[]>([]);
+let mutedUserIds = $state<string[]>([]);
+let prefetch = $state<PrefetchState | null>(null);
+let prefetchController: AbortController | null = null;
+let lastEndedSessionId = $state<string | null>(null);
 
 // Internal references
 let sessionManager: any = null;
@@ -187,7 +225,7 @@ async function initSessionManager(user: User): Promise<void> {
       const isDev = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
       
       if (isDev) {
-        // Local development: connect to local y-websocket-server
+        // Local development: connect to local @gigwidget/signaling server
         signalingServers = [
           `wss://${window.location.hostname}:4444`,
           `ws://${window.location.hostname}:4444`, // Fallback to ws for local dev
@@ -216,17 +254,28 @@ async function initSessionManager(user: User): Promise<void> {
       console.log('[Session] session-created event received, manifest size:', songManifest?.length);
       isActive = true;
       isHosting = true;
+      role = 'host';
       status = 'connected';
       // QR payload is kept small (no manifest), but we store the full payload for local UI
       qrPayload = { ...payload, libraryManifest: songManifest || [] };
+      // Local network joiners open the app from the relay: the QR holds that link
+      const [relayUrl] = sessionManager.getLocalNetworkAppUrls();
+      if (relayUrl) {
+        const { encodeSessionPayload } = await import('@gigwidget/sync');
+        relayJoinUrl = `${relayUrl}/session#${encodeSessionPayload(payload)}`;
+      }
       // Generate QR with ONLY the connection info (no manifest)
-      await generateQR(payload);
+      await generateQR(relayJoinUrl ?? payload);
       console.log('[Session] After generateQR, qrDataUrl is:', qrDataUrl ? 'set' : 'null');
 
       // Set up content provider for hosts
-      sessionManager.setContentProvider(async (songId: string) => {
+      sessionManager.setContentProvider(async (songId: string, arrangementId?: string) => {
         try {
           const { ArrangementRepository } = await import('@gigwidget/db');
+          if (arrangementId) {
+            const arrangement = await ArrangementRepository.getById(arrangementId);
+            return arrangement?.songId === songId ? arrangement.content : null;
+          }
           const arrangements = await ArrangementRepository.getBySong(songId);
           return arrangements[0]?.content ?? null;
         } catch (err) {
@@ -243,6 +292,9 @@ async function initSessionManager(user: User): Promise<void> {
     sessionManager.on('session-joined', ({ session }: any) => {
       isActive = true;
       isHosting = false;
+      role = sessionManager.role;
+      nowPlaying = sessionManager.getNowPlaying();
+      queue = sessionManager.getQueue();
       status = 'connected';
       // Initialize qrPayload with session info - manifest comes later via WebRTC
       qrPayload = {
@@ -257,6 +309,11 @@ async function initSessionManager(user: User): Promise<void> {
       };
       console.log('[Session] Joined session, waiting for manifest over WebRTC...');
       startExpiryTimer();
+
+      // Only the latest session's charts are kept offline
+      import('@gigwidget/db')
+        .then(({ SessionContentCacheRepository }) => SessionContentCacheRepository.deleteOtherSessions(session.id))
+        .catch((err) => console.error('[Session] Failed to prune session cache:', err));
     });
 
     // Manifest received over WebRTC (for joiners)
@@ -270,14 +327,26 @@ async function initSessionManager(user: User): Promise<void> {
       }
     });
 
-    sessionManager.on('session-left', () => {
+    sessionManager.on('session-left', ({ transcript }: { transcript: SessionTranscript | null }) => {
+      if (transcript) {
+        saveSessionHistory(transcript).catch((err) => console.error('[Session] Failed to save session history:', err));
+      }
       isActive = false;
       isHosting = false;
+      role = 'follower';
+      nowPlaying = null;
+      queue = null;
+      messages = [];
+      mutedUserIds = [];
+      prefetchController?.abort();
+      prefetchController = null;
+      prefetch = null;
       status = 'disconnected';
       peerCount = 0;
       participants = [];
       qrPayload = null;
       qrDataUrl = null;
+      relayJoinUrl = null;
       // Don't clear wasEjected here - let it persist so UI can show message
       stopExpiryTimer();
       stopHostAbsenceTimer();
@@ -306,6 +375,78 @@ async function initSessionManager(user: User): Promise<void> {
       console.log('Peers changed:', count);
     });
 
+    sessionManager.on('role-changed', async ({ role: newRole }: any) => {
+      role = newRole;
+      const { toast } = await import('./toastStore.svelte');
+      toast.info(`You are now ${newRole === 'co-host' ? 'a co-host' : newRole === 'editor' ? 'an editor' : 'a follower'}`);
+    });
+
+    // Host: chart fixes from co-hosts and editors go into the host's library
+    sessionManager.on('content-changed', async ({ key, content, userId }: any) => {
+      if (!isHosting || !userId || userId === currentUser?.id) return;
+      const [songId, arrangementId] = key.split(':');
+      const editor = participants.find((p) => p.userId === userId)?.displayName ?? 'A participant';
+
+      try {
+        await applySessionEdit(songId, arrangementId, content, editor);
+        const title = qrPayload?.libraryManifest.find((s) => s.id === songId)?.title ?? 'a song';
+        const { toast } = await import('./toastStore.svelte');
+        toast.info(`${editor} edited ${title}`);
+      } catch (err) {
+        console.error('[Session] Failed to save session edit:', key, err);
+      }
+    });
+
+    // Joiner: keep every chart received, so it stays readable offline
+    sessionManager.on('content-changed', ({ key, content }: any) => {
+      if (isHosting || !content) return;
+      cacheSessionContent(key, content).catch((err) =>
+        console.error('[Session] Failed to cache session content:', key, err)
+      );
+    });
+
+    // Host: follow co-hosts' transposition on the host's own song view
+    sessionManager.on('transpose-changed', async ({ songId, semitones }: any) => {
+      if (!isHosting) return;
+      const { SongDoc } = await import('@gigwidget/core');
+      const { openSongDoc, releaseSongDoc } = await import('./songDocStore');
+      const doc = await openSongDoc(songId);
+      try {
+        const transpose = SongDoc.getTranspose(doc);
+        if (transpose.get('semitones') !== semitones) transpose.set('semitones', semitones);
+      } finally {
+        releaseSongDoc(songId);
+      }
+    });
+
+    sessionManager.on('now-playing-changed', ({ nowPlaying: current }: any) => {
+      nowPlaying = current;
+    });
+
+    sessionManager.on('queue-changed', ({ queue: current }: any) => {
+      queue = current;
+    });
+
+    sessionManager.on('chat-changed', ({ messages: current }: any) => {
+      messages = current;
+      mutedUserIds = sessionManager.getMutedUserIds();
+    });
+
+    // Song requests go to whoever is choosing the songs
+    sessionManager.on('message-received', async ({ message }: { message: SessionMessage }) => {
+      if (message.type !== 'song-request' || message.userId === currentUser?.id || !can('change_song')) return;
+      const title = qrPayload?.libraryManifest.find((s) => s.id === message.songId)?.title ?? 'a song';
+      const { toast } = await import('./toastStore.svelte');
+      toast.info(`${message.displayName} requested ${title}`, 5000);
+    });
+
+    // Songs the host added while the session was running
+    sessionManager.on('manifest-changed', ({ manifest }: any) => {
+      if (qrPayload) {
+        qrPayload = { ...qrPayload, libraryManifest: manifest };
+      }
+    });
+
     sessionManager.on('participants-changed', ({ participants: newParticipants }: any) => {
       participants = newParticipants;
       peerCount = newParticipants.length + 1; // Include self
@@ -322,9 +463,67 @@ async function initSessionManager(user: User): Promise<void> {
 }
 
 /**
- * Generate QR code from payload
+ * Save a participant's edit to one of the host's songs, keeping the
+ * replaced version in its history
  */
-async function generateQR(payload: QRSessionPayload): Promise<void> {
+async function applySessionEdit(
+  songId: string,
+  arrangementId: string | undefined,
+  content: string,
+  editorName: string
+): Promise<void> {
+  const { ArrangementRepository, SongRepository, SnapshotRepository } = await import('@gigwidget/db');
+  const { createSnapshot } = await import('@gigwidget/core');
+  const { updateArrangementContent } = await import('./songDocStore');
+
+  const arrangement = arrangementId
+    ? await ArrangementRepository.getById(arrangementId)
+    : (await ArrangementRepository.getBySong(songId))[0];
+  if (!arrangement || arrangement.songId !== songId || arrangement.content === content) return;
+
+  await SnapshotRepository.create(createSnapshot(arrangement, `Before ${editorName}'s session edit`));
+  await SnapshotRepository.pruneForArrangement(
+    arrangement.id,
+    currentUser ? await SnapshotRepository.getRetention(currentUser.id) : undefined
+  );
+  await updateArrangementContent(songId, arrangement.id, content);
+  await ArrangementRepository.update(arrangement.id, { version: arrangement.version + 1 });
+  await SongRepository.update(songId, {});
+}
+
+/**
+ * Store song content received in the session in the local session cache
+ */
+async function cacheSessionContent(key: string, content: string): Promise<void> {
+  const [songId, arrangementId] = key.split(':');
+  const entry = qrPayload?.libraryManifest.find((s) => s.id === songId);
+  if (!qrPayload || !entry) return;
+
+  const { SessionContentCacheRepository } = await import('@gigwidget/db');
+  await SessionContentCacheRepository.put({
+    sessionId: qrPayload.sessionId,
+    key,
+    songId,
+    arrangementId,
+    content,
+    entry: $state.snapshot(entry),
+    cachedAt: new Date(),
+  });
+}
+
+/**
+ * Keep the record of a session that has ended for this device
+ */
+async function saveSessionHistory({ session, participants }: SessionTranscript): Promise<void> {
+  const { SessionRepository } = await import('@gigwidget/db');
+  await SessionRepository.saveHistory(session, participants);
+  lastEndedSessionId = session.id;
+}
+
+/**
+ * Generate QR code from payload, or from a join link
+ */
+async function generateQR(payload: QRSessionPayload | string): Promise<void> {
   try {
     const { generateQRCodeDataURL, estimateQRCodeSize } = await import('@gigwidget/sync');
 
@@ -354,6 +553,8 @@ async function startSession(
     collectionId?: string;
     collectionName?: string;
     password?: string;
+    /** 'local-network' hosts through the relay on this device, without internet */
+    type?: SessionType;
   } = {}
 ): Promise<void> {
   await initSessionManager(user);
@@ -374,23 +575,17 @@ async function startSession(
   try {
     // Songs are passed in already filtered by the caller
     // Keep manifest lightweight for QR codes - content is exchanged over WebRTC
-    const manifest: SongManifestEntry[] = songs.map((s) => ({
-      id: s.id,
-      title: s.title,
-      artist: s.artist,
-      key: s.key,
-      tempo: s.tempo,
-      tags: s.tags,
-      instruments: [],
-    }));
+    const manifest = await buildSongManifest(songs);
 
     await sessionManager.createSession(manifest, {
-      type: 'webrtc',
+      type: options.type ?? 'webrtc',
       libraryScope: options.shareAll !== false ? 'full' : 'collection',
       collectionId: options.collectionId,
       collectionName: options.collectionName,
       password: options.password || undefined,
     });
+
+    await attachCollectionIfSetlist(options.collectionId);
   } catch (err) {
     console.error('Failed to start session:', err);
     error = err instanceof Error ? err.message : 'Failed to start session';
@@ -398,6 +593,49 @@ async function startSession(
   }
 }
 
+/**
+ * Sessions shared from a setlist start with it as their queue
+ */
+async function attachCollectionIfSetlist(collectionId?: string): Promise<void> {
+  if (!collectionId) return;
+  const { getDatabase } = await import('@gigwidget/db');
+  const collection = await getDatabase().songSets.get(collectionId);
+  if (collection?.isSetlist) {
+    await attachSetlist(collection.id);
+  }
+}
+
+/**
+ * Build the session manifest: song metadata plus the arrangements each
+ * song has (default first), so joiners can pick one for their instrument
+ */
+async function buildSongManifest(songs: Song[]): Promise<SongManifestEntry[]> {
+  const { getDatabase } = await import('@gigwidget/db');
+  const { sortArrangements } = await import('@gigwidget/core');
+  const arrangements = sortArrangements(
+    await getDatabase().arrangements.where('songId').anyOf(songs.map((s) => s.id)).toArray()
+  );
+
+  return songs.map((s) => {
+    const songArrangements = arrangements.filter((a) => a.songId === s.id);
+    return {
+      id: s.id,
+      title: s.title,
+      artist: s.artist,
+      key: s.key,
+      tempo: s.tempo,
+      tags: s.tags,
+      instruments: [...new Set(songArrangements.map((a) => a.instrument))],
+      arrangements: songArrangements.map((a) => ({
+        id: a.id,
+        instrument: a.instrument,
+        tuning: a.tuning,
+        capo: a.capo,
+      })),
+    };
+  });
+}
+
 /**
  * Join an existing session
  */
@@ -460,15 +698,7 @@ async function resumeSession(user: User, songs: Song[]): Promise<void> {
   };
 
   try {
-    const manifest: SongManifestEntry[] = songs.map((s) => ({
-      id: s.id,
-      title: s.title,
-      artist: s.artist,
-      key: s.key,
-      tempo: s.tempo,
-      tags: s.tags,
-      instruments: [],
-    }));
+    const manifest = await buildSongManifest(songs);
 
     const password =
       stored.payload.connectionInfo.type === 'webrtc'
@@ -476,6 +706,7 @@ async function resumeSession(user: User, songs: Song[]): Promise<void> {
         : undefined;
 
     await sessionManager.resumeSession(stored.payload, manifest, { password });
+    await attachCollectionIfSetlist(stored.collectionId);
   } catch (err) {
     console.error('Failed to resume session:', err);
     error = err instanceof Error ? err.message : 'Failed to resume session';
@@ -485,40 +716,391 @@ async function resumeSession(user: User, songs: Song[]): Promise<void> {
 
 /**
  * Request song content from the host (for joiners)
- * Returns the content if available, null otherwise
+ * Returns the content if available, null otherwise.
+ * Without arrangementId, returns the host's default arrangement.
+ * Content already received comes from the session cache, which also
+ * serves the last session's charts once it has ended.
  */
-async function requestSongContent(songId: string): Promise<string | null> {
+async function requestSongContent(songId: string, arrangementId?: string): Promise<string | null> {
+  const received = sessionManager?.getCachedContent(songId, arrangementId);
+  if (received) return received;
+
+  // Charts received earlier, so a dropped connection doesn't wait on the host
+  const { SessionContentCacheRepository } = await import('@gigwidget/db');
+  const key = arrangementId ? `${songId}:${arrangementId}` : songId;
+  const cached = (await SessionContentCacheRepository.getBySong(songId)).find(
+    (e) => e.key === key && (!isActive || e.sessionId === qrPayload?.sessionId)
+  );
+  if (cached) return cached.content;
+
   if (!sessionManager || !isActive) {
     return null;
   }
-  return sessionManager.requestSongContent(songId);
+  return sessionManager.requestSongContent(songId, arrangementId);
+}
+
+/**
+ * Get a song from the session cache, for reading it after the session
+ * is gone. Returns its manifest entry as last received from the host.
+ */
+async function getOfflineSong(songId: string): Promise<SongManifestEntry | null> {
+  const { SessionContentCacheRepository } = await import('@gigwidget/db');
+  const [latest] = await SessionContentCacheRepository.getBySong(songId);
+  return latest?.entry ?? null;
+}
+
+/**
+ * Songs in the session cache from the most recent session, for reading
+ * offline once the session has ended
+ */
+async function getOfflineSongs(): Promise<SongManifestEntry[]> {
+  const { SessionContentCacheRepository } = await import('@gigwidget/db');
+  const entries = await SessionContentCacheRepository.getLatestSession();
+  const songs = new Map(entries.map((e) => [e.songId, e.entry]));
+  return [...songs.values()].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Download every chart in the session for offline use (joiner). Runs in
+ * the background; progress is exposed as `prefetch`.
+ */
+async function prefetchAllContent(): Promise<void> {
+  if (!sessionManager || !isActive || isHosting || prefetch?.running) return;
+
+  prefetchController = new AbortController();
+  prefetch = { total: 0, done: 0, failed: 0, running: true };
+
+  try {
+    const result: PrefetchProgress = await sessionManager.prefetchAllContent({
+      signal: prefetchController.signal,
+      onProgress: (progress: PrefetchProgress) => {
+        prefetch = { ...progress, running: true };
+      },
+    });
+    if (!isActive) return;
+    prefetch = { ...result, running: false };
+
+    const { toast } = await import('./toastStore.svelte');
+    if (result.failed > 0) {
+      toast.warning(`${result.failed} of ${result.total} charts couldn't be downloaded`);
+    } else if (result.done === result.total && !prefetchController?.signal.aborted) {
+      toast.success('All charts are available offline');
+    }
+  } catch (err) {
+    console.error('[Session] Prefetch failed:', err);
+    if (prefetch) prefetch = { ...prefetch, running: false };
+  } finally {
+    prefetchController = null;
+  }
+}
+
+/**
+ * Stop downloading charts for offline use
+ */
+function cancelPrefetch(): void {
+  prefetchController?.abort();
+  if (prefetch) prefetch = { ...prefetch, running: false };
+}
+
+/**
+ * Let joiners view a shared song without saving it (host only)
+ */
+function setSongViewOnly(songId: string, viewOnly: boolean): void {
+  if (!sessionManager || !isHosting) return;
+  sessionManager.setViewOnly(songId, viewOnly);
+}
+
+/**
+ * The local user's copy of a session song, if they've saved it
+ */
+async function getSavedCopyId(songId: string): Promise<string | null> {
+  const { getDatabase, SavedSongRepository } = await import('@gigwidget/db');
+  const user = currentUser ?? (await getDatabase().users.toArray())[0];
+  if (!user) return null;
+  const saved = await SavedSongRepository.getByUserAndSource(user.id, songId);
+  return saved?.savedSongId ?? null;
+}
+
+/**
+ * Save a song shared in the session (or cached from the last one) to the
+ * local library as a 'saved' song, with a reference back to the host's
+ * song. Every host arrangement with content is saved. Returns the new
+ * song's ID, or null if the song can't be saved.
+ */
+async function saveSongToLibrary(songId: string): Promise<string | null> {
+  const entry =
+    (isActive ? qrPayload?.libraryManifest.find((s) => s.id === songId) : undefined) ??
+    (await getOfflineSong(songId));
+  if (!entry || entry.viewOnly) return null;
+
+  const { getDatabase, SavedSongRepository } = await import('@gigwidget/db');
+  const { createSavedSong, createSavedSongReference, createArrangement } = await import('@gigwidget/core');
+  const db = getDatabase();
+
+  const user = currentUser ?? (await db.users.toArray())[0];
+  if (!user) return null;
+
+  const existing = await SavedSongRepository.getByUserAndSource(user.id, songId);
+  if (existing) return existing.savedSongId;
+
+  const newSong = createSavedSong(
+    {
+      id: entry.id,
+      title: entry.title,
+      artist: entry.artist,
+      key: entry.key,
+      tempo: entry.tempo,
+      tags: entry.tags ?? [],
+    },
+    user.id
+  );
+
+  const arrangements: Arrangement[] = [];
+  if (entry.arrangements?.length) {
+    for (const a of entry.arrangements) {
+      const content = await requestSongContent(songId, a.id);
+      if (content) {
+        arrangements.push(createArrangement(newSong.id, a.instrument, { content, tuning: a.tuning, capo: a.capo }));
+      }
+    }
+  } else {
+    const content = entry.content ?? (await requestSongContent(songId));
+    if (content) arrangements.push(createArrangement(newSong.id, 'guitar', { content }));
+  }
+  if (arrangements.length === 0) return null;
+
+  await db.transaction('rw', [db.songs, db.savedSongs], async () => {
+    await db.songs.add(newSong);
+    await SavedSongRepository.create(createSavedSongReference(user.id, songId, newSong.id));
+  });
+
+  const { putArrangementInDoc } = await import('./songDocStore');
+  for (const arrangement of arrangements) {
+    await putArrangementInDoc(arrangement);
+  }
+
+  const { syncSongToCloud } = await import('./syncStore.svelte');
+  syncSongToCloud(newSong).catch((err) => console.warn('[Session] Cloud sync failed, song saved locally:', err));
+
+  return newSong.id;
+}
+
+/**
+ * Save every song the host allows saving. Songs already saved are left
+ * as they are.
+ */
+async function saveAllToLibrary(): Promise<{ saved: number; failed: number }> {
+  const manifest = qrPayload?.libraryManifest ?? [];
+  let saved = 0;
+  let failed = 0;
+
+  for (const entry of manifest) {
+    if (entry.viewOnly) continue;
+    try {
+      if (await getSavedCopyId(entry.id)) continue;
+      if (await saveSongToLibrary(entry.id)) {
+        saved++;
+      } else {
+        failed++;
+      }
+    } catch (err) {
+      console.error('[Session] Failed to save song:', entry.id, err);
+      failed++;
+    }
+  }
+
+  return { saved, failed };
 }
 
 /**
  * Get cached song content (sync, no network request)
  */
-function getCachedContent(songId: string): string | null {
+function getCachedContent(songId: string, arrangementId?: string): string | null {
   if (!sessionManager) {
     return null;
   }
-  return sessionManager.getCachedContent(songId);
+  return sessionManager.getCachedContent(songId, arrangementId);
 }
 
 /**
  * Check if song content is available
  */
-function hasContent(songId: string): boolean {
+function hasContent(songId: string, arrangementId?: string): boolean {
   if (!sessionManager) {
     return false;
   }
-  return sessionManager.hasContent(songId);
+  return sessionManager.hasContent(songId, arrangementId);
 }
 
 /**
- * Set transpose for a song (host only - syncs to all joiners)
+ * Whether the current user's session role allows an action
  */
-function setTranspose(songId: string, semitones: number): void {
+function can(permission: SessionPermission): boolean {
+  return isActive && hasSessionPermission(role, permission);
+}
+
+/**
+ * Grant a session role to a participant (host only)
+ */
+function setParticipantRole(userId: string, newRole: Exclude<SessionRole, 'host'>): void {
   if (!sessionManager || !isHosting) return;
+  sessionManager.setParticipantRole(userId, newRole);
+}
+
+/**
+ * Put a song on everyone's screen (host and co-hosts). A queued song
+ * becomes the queue's current item, with next up taken from the queue.
+ */
+function setNowPlaying(songId: string, options: { arrangementId?: string; nextSongId?: string } = {}): void {
+  if (!sessionManager || !can('change_song')) return;
+
+  // Prefer the next occurrence after the current item, so repeats play in order
+  const queued =
+    queue?.items.find((item, i) => i > queue!.currentIndex && item.songId === songId && !item.skipped) ??
+    queue?.items.find((item) => item.songId === songId);
+  if (queued && !options.nextSongId) {
+    sessionManager.playQueueItem(queued.id, options.arrangementId);
+    return;
+  }
+
+  sessionManager.setNowPlaying({
+    songId,
+    arrangementId: options.arrangementId,
+    nextSongId: options.nextSongId,
+  });
+}
+
+/**
+ * Set the section being played in the current song (host and co-hosts)
+ */
+function setCurrentSection(section: string | undefined): void {
+  if (!sessionManager || !can('change_song')) return;
+  sessionManager.setCurrentSection(section);
+}
+
+/**
+ * Change the song queued after the current one (host and co-hosts)
+ */
+function setNextUp(nextSongId: string | undefined): void {
+  if (!sessionManager || !nowPlaying || !can('change_song')) return;
+  sessionManager.setNowPlaying({
+    songId: nowPlaying.songId,
+    arrangementId: nowPlaying.arrangementId,
+    section: nowPlaying.section,
+    nextSongId,
+  });
+}
+
+/**
+ * Make one of the host's setlists the session queue (host only). Setlist
+ * songs the session wasn't sharing are shared first.
+ */
+async function attachSetlist(setlistId: string): Promise<void> {
+  if (!sessionManager || !isHosting) return;
+
+  const { getDatabase } = await import('@gigwidget/db');
+  const db = getDatabase();
+  const setlist = await db.songSets.get(setlistId);
+  if (!setlist) return;
+
+  await shareSongs(setlist.songIds);
+  sessionManager.attachSetlist(setlist);
+}
+
+/**
+ * Add songs from the host's library to the running session's manifest
+ */
+async function shareSongs(songIds: string[]): Promise<void> {
+  const shared = new Set(sessionManager.getManifest().map((e: SongManifestEntry) => e.id));
+  const missing = songIds.filter((id) => !shared.has(id));
+  if (missing.length === 0) return;
+
+  const { getDatabase } = await import('@gigwidget/db');
+  const songs = (await getDatabase().songs.bulkGet(missing)).filter((s): s is Song => !!s);
+  sessionManager.addToManifest(await buildSongManifest(songs));
+}
+
+/**
+ * Insert a song into the queue after the current one (host and co-hosts).
+ * The host can insert any song from their library.
+ */
+async function insertIntoQueue(songId: string): Promise<void> {
+  if (!sessionManager || !can('change_song')) return;
+  if (isHosting) await shareSongs([songId]);
+  sessionManager.insertIntoQueue(songId);
+}
+
+/**
+ * Queue editing (host and co-hosts)
+ */
+function moveInQueue(itemId: string, toIndex: number): void {
+  sessionManager?.moveInQueue(itemId, toIndex);
+}
+
+function skipInQueue(itemId: string, skipped = true): void {
+  sessionManager?.skipInQueue(itemId, skipped);
+}
+
+function removeFromQueue(itemId: string): void {
+  sessionManager?.removeFromQueue(itemId);
+}
+
+function clearQueue(): void {
+  sessionManager?.clearQueue();
+}
+
+function playQueueItem(itemId: string): void {
+  sessionManager?.playQueueItem(itemId);
+}
+
+/**
+ * Send a chat message
+ */
+function sendChatMessage(text: string): void {
+  const trimmed = text.trim();
+  if (!sessionManager || !trimmed) return;
+  sessionManager.sendMessage({ type: 'text', text: trimmed });
+}
+
+/**
+ * Ask for a song from the session manifest to be played
+ */
+function requestSong(songId: string): void {
+  sessionManager?.sendMessage({ type: 'song-request', songId });
+}
+
+/**
+ * React with an emoji, to a message or to the room
+ */
+function react(emoji: string, targetId?: string): void {
+  sessionManager?.sendMessage({ type: 'reaction', text: emoji, targetId });
+}
+
+/**
+ * Chat moderation (host only)
+ */
+function muteParticipant(userId: string, muted: boolean): void {
+  if (!sessionManager || !can('moderate_chat')) return;
+  sessionManager.muteParticipant(userId, muted);
+}
+
+function clearChat(): void {
+  if (!sessionManager || !can('moderate_chat')) return;
+  sessionManager.clearChat();
+}
+
+/**
+ * Turn following the leader's song on or off for this device
+ */
+function setFollowLeader(follow: boolean): void {
+  followLeader = follow;
+}
+
+/**
+ * Set transpose for a song (host and co-hosts - syncs to all participants)
+ */
+function setTranspose(songId: string, semitones: number): void {
+  if (!sessionManager || !can('transpose')) return;
   sessionManager.setTranspose(songId, semitones);
 }
 
@@ -540,21 +1122,26 @@ function observeTranspose(songId: string, callback: (semitones: number) => void)
 }
 
 /**
- * Update shared song content (host only - syncs to all joiners)
- * Call this when the host edits a song to propagate changes in real-time
+ * Update shared song content (host, co-hosts and editors - syncs to all
+ * participants). Call this when a chart is edited to propagate changes
+ * in real-time
  */
-function updateSharedContent(songId: string, content: string): void {
-  if (!sessionManager || !isHosting) return;
-  sessionManager.updateSharedContent(songId, content);
+function updateSharedContent(songId: string, content: string, arrangementId?: string): void {
+  if (!sessionManager || !can('edit_content')) return;
+  sessionManager.updateSharedContent(songId, content, arrangementId);
 }
 
 /**
- * Observe content updates for a song (joiner only)
+ * Observe content updates for a song arrangement
  * Returns a cleanup function to stop observing
  */
-function observeContentUpdates(songId: string, callback: (content: string) => void): () => void {
+function observeContentUpdates(
+  songId: string,
+  callback: (content: string) => void,
+  arrangementId?: string
+): () => void {
   if (!sessionManager) return () => {};
-  return sessionManager.observeContentUpdates(songId, callback);
+  return sessionManager.observeContentUpdates(songId, callback, arrangementId);
 }
 
 /**
@@ -639,6 +1226,95 @@ function minimize(): void {
   isMinimized = true;
 }
 
+/**
+ * Sessions this device has been in, most recent first
+ */
+async function getSessionHistory(): Promise<Session[]> {
+  const { SessionRepository } = await import('@gigwidget/db');
+  return SessionRepository.getHistory();
+}
+
+async function getSessionParticipants(sessionId: string): Promise<SessionParticipant[]> {
+  const { SessionRepository } = await import('@gigwidget/db');
+  return SessionRepository.getParticipants(sessionId);
+}
+
+/**
+ * The local library song for a session song: the song itself (host) or
+ * the user's saved copy of it (joiner)
+ */
+async function findLibrarySongId(songId: string, userId: string): Promise<string | null> {
+  const { SongRepository, SavedSongRepository } = await import('@gigwidget/db');
+  if (await SongRepository.getById(songId)) return songId;
+  const saved = await SavedSongRepository.getByUserAndSource(userId, songId);
+  return saved?.savedSongId ?? null;
+}
+
+/**
+ * Make a setlist of the songs played in a past session, in the order they
+ * were played. Songs not in the library are left out.
+ */
+async function createSetlistFromSession(
+  sessionId: string
+): Promise<{ setlist: SongSet; missing: number } | null> {
+  const { getDatabase, SessionRepository, SongSetRepository } = await import('@gigwidget/db');
+  const { generateId } = await import('@gigwidget/core');
+
+  const session = await SessionRepository.getById(sessionId);
+  const user = currentUser ?? (await getDatabase().users.toArray())[0];
+  if (!session?.playedSongs?.length || !user) return null;
+
+  const songIds: string[] = [];
+  for (const played of session.playedSongs) {
+    const id = await findLibrarySongId(played.songId, user.id);
+    if (id) songIds.push(id);
+  }
+
+  const started = session.createdAt.toLocaleDateString();
+  const setlist: SongSet = {
+    id: generateId(),
+    userId: user.id,
+    name: session.hostName ? `Session with ${session.hostName}, ${started}` : `Session ${started}`,
+    songIds,
+    isSetlist: true,
+    visibility: 'private',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await SongSetRepository.create(setlist);
+  await SessionRepository.update(sessionId, { setlistId: setlist.id });
+
+  const { syncSongSetToCloud } = await import('./syncStore.svelte');
+  syncSongSetToCloud(setlist).catch((err) => console.warn('[Session] Cloud sync failed, setlist saved locally:', err));
+
+  return { setlist, missing: session.playedSongs.length - songIds.length };
+}
+
+/**
+ * Count every song played in a past session in its play count. Each
+ * session is only counted once. Returns the number of plays recorded.
+ */
+async function recordSessionPlays(sessionId: string): Promise<number> {
+  const { getDatabase, SessionRepository, SongMetadataRepository } = await import('@gigwidget/db');
+
+  const session = await SessionRepository.getById(sessionId);
+  const user = currentUser ?? (await getDatabase().users.toArray())[0];
+  if (!session?.playedSongs?.length || session.playCountsRecorded || !user) return 0;
+
+  let recorded = 0;
+  for (const played of session.playedSongs) {
+    const id = await findLibrarySongId(played.songId, user.id);
+    if (id) {
+      await SongMetadataRepository.incrementPlayCount(id);
+      recorded++;
+    }
+  }
+
+  await SessionRepository.update(sessionId, { playCountsRecorded: true });
+  return recorded;
+}
+
 /**
  * Get the session store - reactive state accessors and actions
  */
@@ -647,14 +1323,24 @@ export function getSessionStore() {
     // Reactive getters
     get isActive() { return isActive; },
     get isHosting() { return isHosting; },
+    get role() { return role; },
     get status() { return status; },
     get peerCount() { return peerCount; },
     get participants() { return participants; },
     get qrPayload() { return qrPayload; },
     get qrDataUrl() { return qrDataUrl; },
+    get relayJoinUrl() { return relayJoinUrl; },
     get isMinimized() { return isMinimized; },
     get error() { return error; },
     get wasEjected() { return wasEjected; },
+    get nowPlaying() { return nowPlaying; },
+    get followLeader() { return followLeader; },
+    get queue() { return queue; },
+    get messages() { return messages; },
+    get mutedUserIds() { return mutedUserIds; },
+    get prefetch() { return prefetch; },
+    get lastEndedSessionId() { return lastEndedSessionId; },
+    get userId() { return currentUser?.id ?? null; },
 
     // Actions
     startSession,
@@ -671,6 +1357,48 @@ export function getSessionStore() {
     getCachedContent,
     hasContent,
     getManifest,
+    getOfflineSong,
+    getOfflineSongs,
+    prefetchAllContent,
+    cancelPrefetch,
+
+    // Saving to the library
+    setSongViewOnly,
+    getSavedCopyId,
+    saveSongToLibrary,
+    saveAllToLibrary,
+
+    // Session history
+    getSessionHistory,
+    getSessionParticipants,
+    createSetlistFromSession,
+    recordSessionPlays,
+
+    // Session roles
+    can,
+    setParticipantRole,
+
+    // Now playing
+    setNowPlaying,
+    setCurrentSection,
+    setNextUp,
+    setFollowLeader,
+
+    // Setlist queue
+    attachSetlist,
+    insertIntoQueue,
+    moveInQueue,
+    skipInQueue,
+    removeFromQueue,
+    clearQueue,
+    playQueueItem,
+
+    // Chat
+    sendChatMessage,
+    requestSong,
+    react,
+    muteParticipant,
+    clearChat,
 
     // Transpose sharing
     setTranspose,
@@ -0,0 +1,259 @@
+/**
+ * Song Document Store
+ *
+ * Songs live in per-song Yjs documents (createSongDoc), persisted locally
+ * with y-indexeddb. Every arrangement write (adding, editing content,
+ * deleting) goes through the document, so concurrent edits merge character
+ * by character. The Dexie arrangement records are a derived index: whenever
+ * an arrangement's text changes in the document, its record's content is
+ * rewritten from it, and removing it from the document deletes the record.
+ */
+
+import type * as Y from 'yjs';
+import type { Arrangement } from '@gigwidget/core';
+
+interface OpenSongDoc {
+  doc: Y.Doc;
+  persistence: { destroy: () => Promise<void> | void };
+  /** Number of openSongDoc calls not yet released */
+  refs: number;
+  /** Resolves once the document is loaded and seeded */
+  ready: Promise<void>;
+  /** Resolves once the Dexie index has caught up with the document */
+  indexed: Promise<void>;
+}
+
+const openDocs = new Map<string, OpenSongDoc>();
+
+/** Refs still held on documents deleteSongDoc destroyed, by song ID */
+const orphanedRefs = new Map<string, number>();
+
+// ============================================================================
+// Open / Release
+// ============================================================================
+
+/**
+ * Open a song's document, loading it from IndexedDB. Calls are counted:
+ * each must be matched by releaseSongDoc.
+ */
+export async function openSongDoc(songId: string): Promise<Y.Doc> {
+  let entry = openDocs.get(songId);
+  if (!entry) {
+    const { createSongDoc } = await import('@gigwidget/core');
+    const { IndexeddbPersistence } = await import('@gigwidget/sync');
+
+    // Another call may have opened it while the modules loaded
+    entry = openDocs.get(songId);
+    if (!entry) {
+      const doc = createSongDoc(songId);
+      const persistence = new IndexeddbPersistence(doc.guid, doc);
+      const created: OpenSongDoc = {
+        doc,
+        persistence,
+        refs: 0,
+        ready: Promise.resolve(),
+        indexed: Promise.resolve(),
+      };
+      created.ready = persistence.whenSynced.then(() => seedSongDoc(songId, created));
+      openDocs.set(songId, created);
+      entry = created;
+    }
+  }
+
+  entry.refs++;
+  try {
+    await entry.ready;
+  } catch (err) {
+    releaseSongDoc(songId);
+    throw err;
+  }
+  return entry.doc;
+}
+
+/**
+ * Release a document opened with openSongDoc. The last release destroys
+ * it once pending index writes are done.
+ */
+export function releaseSongDoc(songId: string): void {
+  const orphaned = orphanedRefs.get(songId);
+  if (orphaned) {
+    if (orphaned > 1) orphanedRefs.set(songId, orphaned - 1);
+    else orphanedRefs.delete(songId);
+    return;
+  }
+
+  const entry = openDocs.get(songId);
+  if (!entry) return;
+
+  entry.refs--;
+  if (entry.refs > 0) return;
+
+  openDocs.delete(songId);
+  entry.indexed.finally(() => {
+    entry.persistence.destroy();
+    entry.doc.destroy();
+  });
+}
+
+/**
+ * Delete a song's records and its stored document, so a song pulled again
+ * under the same ID starts from its pulled content. An open copy is
+ * destroyed first, so its persistence can't write the old content back;
+ * its holders' releases are then no-ops.
+ */
+export async function deleteSongDoc(songId: string): Promise<void> {
+  const { SongRepository } = await import('@gigwidget/db');
+  const { createSongDoc } = await import('@gigwidget/core');
+  const { clearDocument } = await import('@gigwidget/sync');
+
+  const entry = openDocs.get(songId);
+  if (entry) {
+    openDocs.delete(songId);
+    orphanedRefs.set(songId, (orphanedRefs.get(songId) ?? 0) + entry.refs);
+    await entry.indexed;
+    await entry.persistence.destroy();
+    entry.doc.destroy();
+  }
+
+  await SongRepository.delete(songId);
+
+  const doc = createSongDoc(songId);
+  try {
+    await clearDocument(doc.guid);
+  } catch (err) {
+    console.error('[SongDoc] Failed to delete document:', err);
+  } finally {
+    doc.destroy();
+  }
+}
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+/**
+ * Set an arrangement's content through its song document, and wait for
+ * the Dexie record to be updated.
+ */
+export async function updateArrangementContent(
+  songId: string,
+  arrangementId: string,
+  content: string
+): Promise<void> {
+  const { SongDoc } = await import('@gigwidget/core');
+  const doc = await openSongDoc(songId);
+  try {
+    SongDoc.setArrangementContent(doc, arrangementId, content);
+    await openDocs.get(songId)?.indexed;
+  } finally {
+    releaseSongDoc(songId);
+  }
+}
+
+/**
+ * Add an arrangement to its song document, or update its instrument,
+ * tuning and capo there, and store its record in the index. Content
+ * already in the document is kept. The song's record must exist first.
+ */
+export async function putArrangementInDoc(arrangement: Arrangement): Promise<void> {
+  const { SongDoc } = await import('@gigwidget/core');
+  const { getDatabase } = await import('@gigwidget/db');
+  const doc = await openSongDoc(arrangement.songId);
+  try {
+    doc.transact(() => {
+      SongDoc.setArrangement(doc, arrangement);
+      if (!SongDoc.getContents(doc).has(arrangement.id)) {
+        SongDoc.setArrangementContent(doc, arrangement.id, arrangement.content);
+      }
+    });
+    await openDocs.get(arrangement.songId)?.indexed;
+
+    const content = SongDoc.getArrangementContent(doc, arrangement.id).toString();
+    await getDatabase().arrangements.put({ ...arrangement, content });
+  } finally {
+    releaseSongDoc(arrangement.songId);
+  }
+}
+
+/**
+ * Remove an arrangement from its song document, and wait for its record
+ * to be deleted.
+ */
+export async function removeArrangementFromDoc(songId: string, arrangementId: string): Promise<void> {
+  const { SongDoc } = await import('@gigwidget/core');
+  const { getDatabase } = await import('@gigwidget/db');
+  const doc = await openSongDoc(songId);
+  try {
+    SongDoc.removeArrangement(doc, arrangementId);
+    await openDocs.get(songId)?.indexed;
+    // Also covers records whose arrangement never made it into the document
+    await getDatabase().arrangements.delete(arrangementId);
+  } finally {
+    releaseSongDoc(songId);
+  }
+}
+
+// ============================================================================
+// Dexie Index
+// ============================================================================
+
+/**
+ * Fill a freshly loaded document from the Dexie records, then keep the
+ * records updated from it.
+ *
+ * Only arrangements missing from the document are added (ones stored
+ * before songs had documents). Arrangements already there keep the
+ * document's content: an edit the index hasn't caught up with yet must not
+ * be reverted by the older record.
+ */
+async function seedSongDoc(songId: string, entry: OpenSongDoc): Promise<void> {
+  const { SongDoc } = await import('@gigwidget/core');
+  const { SongRepository, ArrangementRepository } = await import('@gigwidget/db');
+  const { doc } = entry;
+
+  const song = await SongRepository.getById(songId);
+  const arrangements = await ArrangementRepository.getBySong(songId);
+
+  if (song) {
+    const contents = SongDoc.getContents(doc);
+    SongDoc.seed(doc, song, arrangements.filter((a) => !contents.has(a.id)));
+  }
+
+  SongDoc.getContents(doc).observeDeep((events) => {
+    const changed = new Set<string>();
+    for (const event of events) {
+      if (event.target === SongDoc.getContents(doc)) {
+        for (const key of (event as Y.YMapEvent<Y.Text>).keysChanged) changed.add(key);
+      } else {
+        // A Y.Text inside the contents map: its key is the arrangement ID
+        const key = event.path[0];
+        if (typeof key === 'string') changed.add(key);
+      }
+    }
+    entry.indexed = entry.indexed
+      .then(() => indexArrangements(doc, [...changed]))
+      .catch((err) => console.error('[SongDoc] Failed to update arrangement index:', err));
+  });
+}
+
+async function indexArrangements(doc: Y.Doc, arrangementIds: string[]): Promise<void> {
+  const { SongDoc } = await import('@gigwidget/core');
+  const { getDatabase } = await import('@gigwidget/db');
+  const db = getDatabase();
+  const contents = SongDoc.getContents(doc);
+
+  for (const id of arrangementIds) {
+    const text = contents.get(id);
+    if (!text) {
+      // Removed from the document
+      await db.arrangements.delete(id);
+      continue;
+    }
+
+    const content = text.toString();
+    const existing = await db.arrangements.get(id);
+    if (existing && existing.content !== content) {
+      await db.arrangements.update(id, { content, updatedAt: new Date() });
+    }
+  }
+}
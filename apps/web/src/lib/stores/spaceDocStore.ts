@@ -0,0 +1,225 @@
+/**
+ * Space Document Store
+ *
+ * Each group space has a Y.Doc (createSpaceDoc) shared by its members and
+ * holding the space's activity feed: who added or removed songs, edited an
+ * arrangement, joined, changed roles or reordered a setlist. The doc is
+ * persisted with y-indexeddb and synced with SupabaseProvider; entries are
+ * copied into Dexie (SpaceActivityRepository) for listing.
+ *
+ * Any member can write the doc, so whoever records an entry also adds a
+ * space_activity row, which the database only accepts as themselves.
+ * Entries are listed only once their row confirms who wrote them.
+ */
+
+import type * as Y from 'yjs';
+import type { SpaceActivity, SpaceActivityDetails, SpaceActivityType } from '@gigwidget/core';
+import { getSupabaseClient, loadSpaceActivityFromSupabase, saveSpaceActivityToSupabase } from './supabaseStore';
+import { getSupabaseUserId } from './authStore.svelte';
+
+interface SpaceSync {
+  doc: Y.Doc;
+  persistence: { destroy: () => Promise<void> | void };
+  provider: {
+    connect: () => Promise<void>;
+    loadSnapshot: () => Promise<boolean>;
+    saveSnapshot: () => Promise<void>;
+    destroy: () => void;
+  };
+}
+
+const spaces = new Map<string, SpaceSync>();
+const opening = new Map<string, Promise<Y.Doc>>();
+const activityListeners = new Map<string, Set<() => void>>();
+
+// ============================================================================
+// Start / Stop
+// ============================================================================
+
+/**
+ * Open a space's document and connect it to the cloud. Activity from other
+ * members is copied into Dexie as it arrives.
+ */
+export async function startSpaceSync(spaceId: string): Promise<Y.Doc> {
+  const open = spaces.get(spaceId);
+  if (open) return open.doc;
+
+  let pending = opening.get(spaceId);
+  if (!pending) {
+    pending = openSpaceDoc(spaceId).finally(() => opening.delete(spaceId));
+    opening.set(spaceId, pending);
+  }
+  return pending;
+}
+
+async function openSpaceDoc(spaceId: string): Promise<Y.Doc> {
+  const { createSpaceDoc, SpaceDoc } = await import('@gigwidget/core');
+  const { IndexeddbPersistence, SupabaseProvider } = await import('@gigwidget/sync');
+
+  const doc = createSpaceDoc(spaceId);
+  const persistence = new IndexeddbPersistence(doc.guid, doc);
+  await persistence.whenSynced;
+
+  // Stored as spaces/<spaceId>/space.yjs, so storage policies can check
+  // membership; updates go over the private channel yjs:spaces/<spaceId>/space,
+  // which a realtime.messages policy keeps to members
+  const provider = new SupabaseProvider(doc, {
+    supabase: getSupabaseClient(),
+    roomName: `spaces/${spaceId}/space`,
+  });
+
+  SpaceDoc.getActivity(doc).observe((event) => {
+    if (event.transaction.local) return;
+    importActivity(spaceId, doc).catch((err) => console.error('[Space] Failed to store activity:', err));
+  });
+
+  await provider.connect();
+  spaces.set(spaceId, { doc, persistence, provider });
+  await importActivity(spaceId, doc);
+  return doc;
+}
+
+/**
+ * Save a space's document to the cloud and disconnect.
+ */
+export async function stopSpaceSync(spaceId: string): Promise<void> {
+  const space = spaces.get(spaceId);
+  if (!space) return;
+  spaces.delete(spaceId);
+
+  try {
+    await space.provider.saveSnapshot();
+  } catch (err) {
+    console.error('[Space] Failed to save space before disconnecting:', err);
+  }
+  space.provider.destroy();
+  await space.persistence.destroy();
+  space.doc.destroy();
+}
+
+export async function stopAllSpaceSync(): Promise<void> {
+  await Promise.all([...spaces.keys()].map(stopSpaceSync));
+}
+
+/**
+ * Keep exactly the given spaces' documents open
+ */
+export async function syncSpaceDocs(spaceIds: string[]): Promise<void> {
+  const keep = new Set(spaceIds);
+  for (const spaceId of [...spaces.keys()]) {
+    if (!keep.has(spaceId)) await stopSpaceSync(spaceId);
+  }
+  for (const spaceId of spaceIds) {
+    try {
+      await startSpaceSync(spaceId);
+    } catch (err) {
+      console.error(`[Space] Failed to open space ${spaceId}:`, err);
+    }
+  }
+}
+
+// ============================================================================
+// Recording Activity
+// ============================================================================
+
+/**
+ * Add an entry to a space's activity feed, as the current user
+ */
+export async function recordSpaceActivity(
+  spaceId: string,
+  type: SpaceActivityType,
+  details: SpaceActivityDetails = {}
+): Promise<void> {
+  const supabaseUserId = getSupabaseUserId();
+  if (!supabaseUserId) return;
+
+  const { createSpaceActivity, SpaceDoc } = await import('@gigwidget/core');
+  const { getDatabase, SpaceActivityRepository } = await import('@gigwidget/db');
+  const [user] = await getDatabase().users.toArray();
+
+  const activity = createSpaceActivity(
+    spaceId,
+    type,
+    { id: supabaseUserId, name: user?.displayName ?? 'Member' },
+    details
+  );
+  await SpaceActivityRepository.putMany([activity]);
+  notifyActivity(spaceId);
+
+  // Without its row other members would drop the entry
+  const { error } = await saveSpaceActivityToSupabase(supabaseUserId, activity);
+  if (error) return;
+
+  try {
+    const doc = await startSpaceSync(spaceId);
+    SpaceDoc.addActivity(doc, activity);
+    await saveSpace(spaceId);
+  } catch (err) {
+    console.error('[Space] Failed to sync activity:', err);
+  }
+}
+
+/**
+ * Save a space's document. The stored state is loaded first, so entries
+ * added by members who weren't connected at the same time are kept.
+ */
+async function saveSpace(spaceId: string): Promise<void> {
+  const space = spaces.get(spaceId);
+  if (!space) return;
+  try {
+    await space.provider.loadSnapshot();
+    await space.provider.saveSnapshot();
+  } catch (err) {
+    // The provider's auto-save retries
+    console.error('[Space] Failed to save space:', err);
+  }
+}
+
+/**
+ * Call listener whenever a space's stored activity changes. Returns a
+ * function that stops listening.
+ */
+export function onSpaceActivity(spaceId: string, listener: () => void): () => void {
+  let listeners = activityListeners.get(spaceId);
+  if (!listeners) {
+    listeners = new Set();
+    activityListeners.set(spaceId, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) activityListeners.delete(spaceId);
+  };
+}
+
+function notifyActivity(spaceId: string): void {
+  for (const listener of activityListeners.get(spaceId) ?? []) listener();
+}
+
+/**
+ * Copy the doc's entries into Dexie, with who wrote them taken from their
+ * space_activity rows. Entries without a matching row are left out.
+ */
+async function importActivity(spaceId: string, doc: Y.Doc): Promise<void> {
+  const { SpaceDoc } = await import('@gigwidget/core');
+  const { SpaceActivityRepository } = await import('@gigwidget/db');
+  const activities: SpaceActivity[] = SpaceDoc.getActivities(doc);
+  if (activities.length === 0) return;
+
+  const { data: rows, error } = await loadSpaceActivityFromSupabase(spaceId);
+  if (error || !rows) return;
+
+  const authors = new Map(rows.map((row) => [row.id, row]));
+  const verified = activities.flatMap((activity) => {
+    const author = authors.get(activity.id);
+    if (!author || author.type !== activity.type) return [];
+    return [{ ...activity, spaceId, actorId: author.actor_id, actorName: author.actor_name }];
+  });
+  if (verified.length < activities.length) {
+    console.warn(`[Space] Ignoring ${activities.length - verified.length} unconfirmed activity entries`);
+  }
+  if (verified.length === 0) return;
+
+  await SpaceActivityRepository.putMany(verified);
+  notifyActivity(spaceId);
+}
@@ -0,0 +1,413 @@
+/**
+ * Space Store
+ *
+ * Group spaces (e.g. a band) live in Supabase: spaces, space_members,
+ * space_invites and space_songs, with row-level security limiting each
+ * to the space's members. The local Space and Membership records are a
+ * copy for offline use, refreshed by syncSpacesFromCloud. Songs record
+ * the spaces they're shared in through spaceIds (SongRepository.addToSpace).
+ *
+ * Members other than the local user are stored by their Supabase user ID.
+ *
+ * Every change checks hasSpacePermission against the local membership
+ * first; row-level security enforces the same rules in the cloud. Changes
+ * are recorded in the space's activity feed (spaceDocStore).
+ */
+
+import type { Arrangement, MemberRole, Song, SongSet, Space, SpacePermission } from '@gigwidget/core';
+import {
+  loadSpacesFromSupabase,
+  saveSpaceToSupabase,
+  deleteSpaceFromSupabase,
+  loadSpaceMembers,
+  loadSpaceSongs,
+  removeSpaceMember,
+  updateSpaceMemberRole,
+  shareSongToSpace,
+  unshareSongFromSpace,
+  acceptSpaceInvite,
+  createSpaceInvite,
+  loadSpaceInvites,
+  deleteSpaceInvite,
+  type SupabaseSpaceInvite,
+} from './supabaseStore';
+import { getSupabaseUserId } from './authStore.svelte';
+import { recordSpaceActivity, syncSpaceDocs } from './spaceDocStore';
+
+type LocalDatabase = Awaited<ReturnType<typeof import('@gigwidget/db').getDatabase>>;
+
+async function getLocalUserId(db: LocalDatabase): Promise<string> {
+  const users = await db.users.toArray();
+  if (!users[0]) throw new Error('No local user found');
+  return users[0].id;
+}
+
+function requireSupabaseUserId(): string {
+  const userId = getSupabaseUserId();
+  if (!userId) throw new Error('Sign in to use shared spaces');
+  return userId;
+}
+
+async function requireSpacePermission(spaceId: string, permission: SpacePermission): Promise<void> {
+  const { getDatabase, MembershipRepository } = await import('@gigwidget/db');
+  const users = await getDatabase().users.toArray();
+  if (!(await MembershipRepository.hasPermission(users[0] ?? null, spaceId, permission))) {
+    throw new Error("Your role in this space doesn't allow that");
+  }
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Replace the local group spaces, memberships and song shares with the
+ * cloud's. Spaces missing from the cloud were deleted or left.
+ */
+export async function syncSpacesFromCloud(): Promise<void> {
+  const supabaseUserId = requireSupabaseUserId();
+  const { getDatabase } = await import('@gigwidget/db');
+  const { createMembership } = await import('@gigwidget/core');
+  const db = getDatabase();
+  const localUserId = await getLocalUserId(db);
+  const toLocalUserId = (id: string) => (id === supabaseUserId ? localUserId : id);
+
+  const { data: cloudSpaces, error } = await loadSpacesFromSupabase();
+  if (error || !cloudSpaces) throw error ?? new Error('Failed to load spaces');
+
+  const spaceIds = cloudSpaces.map((s) => s.id);
+  const { data: members, error: membersError } = await loadSpaceMembers(spaceIds);
+  if (membersError || !members) throw membersError ?? new Error('Failed to load space members');
+  const { data: shares, error: sharesError } = await loadSpaceSongs(spaceIds);
+  if (sharesError || !shares) throw sharesError ?? new Error('Failed to load shared songs');
+
+  const localGroupSpaces = await db.spaces.where('type').equals('group').toArray();
+  const cloudIds = new Set(spaceIds);
+  const goneIds = localGroupSpaces.map((s: Space) => s.id).filter((id: string) => !cloudIds.has(id));
+
+  await db.transaction('rw', [db.spaces, db.memberships, db.songs], async () => {
+    for (const id of goneIds) {
+      await db.memberships.where({ spaceId: id }).delete();
+      await db.spaces.delete(id);
+    }
+
+    for (const cloudSpace of cloudSpaces) {
+      await db.spaces.put({
+        id: cloudSpace.id,
+        name: cloudSpace.name,
+        description: cloudSpace.description ?? undefined,
+        type: cloudSpace.type,
+        ownerId: toLocalUserId(cloudSpace.owner_id),
+        cloudEnabled: true,
+        yjsDocId: `space-${cloudSpace.id}`,
+        createdAt: new Date(cloudSpace.created_at),
+        updatedAt: new Date(cloudSpace.updated_at),
+      });
+
+      await db.memberships.where({ spaceId: cloudSpace.id }).delete();
+      for (const member of members.filter((m) => m.space_id === cloudSpace.id)) {
+        await db.memberships.add({
+          ...createMembership(toLocalUserId(member.user_id), cloudSpace.id, member.role, member.display_name),
+          joinedAt: new Date(member.joined_at),
+        });
+      }
+    }
+
+    // Group space IDs on local songs follow the cloud shares. Updated
+    // directly, so updatedAt (and with it sync ordering) is left alone.
+    const sharedIn = new Map<string, string[]>();
+    for (const share of shares) {
+      sharedIn.set(share.song_id, [...(sharedIn.get(share.song_id) ?? []), share.space_id]);
+    }
+    const groupIds = new Set([...goneIds, ...spaceIds]);
+    const songs = await db.songs.where('ownerId').equals(localUserId).toArray();
+    for (const song of songs) {
+      const spaceIdsForSong = [
+        ...song.spaceIds.filter((id: string) => !groupIds.has(id)),
+        ...(sharedIn.get(song.id) ?? []),
+      ];
+      if (spaceIdsForSong.join() !== song.spaceIds.join()) {
+        await db.songs.update(song.id, { spaceIds: spaceIdsForSong });
+      }
+    }
+  });
+
+  console.log(`[Spaces] Synced ${cloudSpaces.length} spaces`);
+
+  // Activity feeds connect in the background
+  syncSpaceDocs(spaceIds).catch((err) => console.error('[Spaces] Failed to sync space documents:', err));
+}
+
+// ============================================================================
+// Spaces
+// ============================================================================
+
+/**
+ * Create a group space owned by the current user
+ */
+export async function createGroupSpace(name: string, description?: string): Promise<Space> {
+  const supabaseUserId = requireSupabaseUserId();
+  const { getDatabase, SpaceRepository, MembershipRepository } = await import('@gigwidget/db');
+  const { createSpace, createMembership } = await import('@gigwidget/core');
+  const db = getDatabase();
+  const localUserId = await getLocalUserId(db);
+
+  const space = createSpace(localUserId, name, 'group', { description, cloudEnabled: true });
+  const { error } = await saveSpaceToSupabase(supabaseUserId, space);
+  if (error) throw error;
+
+  await SpaceRepository.create(space);
+  await MembershipRepository.create(createMembership(localUserId, space.id, 'owner'));
+  return space;
+}
+
+/**
+ * Rename a space or change its description
+ */
+export async function updateGroupSpace(space: Space, updates: { name: string; description?: string }): Promise<void> {
+  const supabaseUserId = requireSupabaseUserId();
+  await requireSpacePermission(space.id, 'edit_space');
+  const { SpaceRepository } = await import('@gigwidget/db');
+
+  const { error } = await saveSpaceToSupabase(supabaseUserId, { id: space.id, ...updates });
+  if (error) throw error;
+  await SpaceRepository.update(space.id, updates);
+}
+
+/**
+ * Delete a space. Shared songs stay in their owners' libraries.
+ */
+export async function deleteGroupSpace(spaceId: string): Promise<void> {
+  await requireSpacePermission(spaceId, 'delete_space');
+  const { error } = await deleteSpaceFromSupabase(spaceId);
+  if (error) throw error;
+  await removeSpaceLocally(spaceId);
+}
+
+/**
+ * Leave a space the current user is a member of
+ */
+export async function leaveSpace(spaceId: string): Promise<void> {
+  await requireSpacePermission(spaceId, 'leave_space');
+  // Recorded first: after leaving, the space's document can't be written
+  await recordSpaceActivity(spaceId, 'member_left', { memberId: getSupabaseUserId() ?? undefined });
+  const { error } = await removeSpaceMember(spaceId, requireSupabaseUserId());
+  if (error) throw error;
+  await removeSpaceLocally(spaceId);
+}
+
+/**
+ * Join a space with an invite token, and sync it. Returns the space ID.
+ */
+export async function joinSpace(token: string): Promise<string> {
+  const { data: spaceId, error } = await acceptSpaceInvite(token);
+  if (error || !spaceId) throw error ?? new Error('Failed to join space');
+  await syncSpacesFromCloud();
+  await recordSpaceActivity(spaceId, 'member_joined');
+  return spaceId;
+}
+
+async function removeSpaceLocally(spaceId: string): Promise<void> {
+  const { SpaceRepository, SongRepository } = await import('@gigwidget/db');
+  for (const song of await SongRepository.getBySpace(spaceId)) {
+    await SongRepository.removeFromSpace(song.id, spaceId);
+  }
+  await SpaceRepository.delete(spaceId);
+}
+
+// ============================================================================
+// Members
+// ============================================================================
+
+/**
+ * Change a member's role. memberUserId is the member's Supabase user ID.
+ */
+export async function setMemberRole(spaceId: string, memberUserId: string, role: MemberRole): Promise<void> {
+  await requireSpacePermission(spaceId, 'manage_members');
+  const { error } = await updateSpaceMemberRole(spaceId, memberUserId, role);
+  if (error) throw error;
+
+  const { MembershipRepository } = await import('@gigwidget/db');
+  const member = await MembershipRepository.get(memberUserId, spaceId);
+  await MembershipRepository.updateRole(memberUserId, spaceId, role);
+  await recordSpaceActivity(spaceId, 'role_changed', {
+    memberId: memberUserId,
+    memberName: member?.displayName,
+    role,
+  });
+}
+
+/**
+ * Remove a member from a space
+ */
+export async function removeMember(spaceId: string, memberUserId: string): Promise<void> {
+  await requireSpacePermission(spaceId, 'manage_members');
+  const { error } = await removeSpaceMember(spaceId, memberUserId);
+  if (error) throw error;
+
+  const { MembershipRepository } = await import('@gigwidget/db');
+  const member = await MembershipRepository.get(memberUserId, spaceId);
+  await MembershipRepository.delete(memberUserId, spaceId);
+  await recordSpaceActivity(spaceId, 'member_removed', { memberId: memberUserId, memberName: member?.displayName });
+}
+
+// ============================================================================
+// Invites
+// ============================================================================
+
+/**
+ * Create an invite that expires after expiresInMs. With an email only that
+ * account can accept it, once; without one, anyone with the link or QR code
+ * can, up to maxUses times.
+ */
+export async function inviteToSpace(
+  spaceId: string,
+  options: { role: Exclude<MemberRole, 'owner'>; expiresInMs: number; email?: string; maxUses?: number }
+): Promise<SupabaseSpaceInvite> {
+  const supabaseUserId = requireSupabaseUserId();
+  await requireSpacePermission(spaceId, 'manage_invites');
+
+  const { data, error } = await createSpaceInvite(supabaseUserId, spaceId, {
+    role: options.role,
+    email: options.email,
+    maxUses: options.maxUses,
+    expiresAt: new Date(Date.now() + options.expiresInMs),
+  });
+  if (error || !data) throw error ?? new Error('Failed to create invite');
+  return data;
+}
+
+/**
+ * List a space's pending invites: not expired, with uses left
+ */
+export async function listSpaceInvites(spaceId: string): Promise<SupabaseSpaceInvite[]> {
+  await requireSpacePermission(spaceId, 'manage_invites');
+
+  const { data, error } = await loadSpaceInvites(spaceId);
+  if (error || !data) throw error ?? new Error('Failed to load invites');
+  return data.filter((invite) => invite.max_uses === null || invite.use_count < invite.max_uses);
+}
+
+/**
+ * Revoke an invite so its link stops working
+ */
+export async function revokeSpaceInvite(spaceId: string, inviteId: string): Promise<void> {
+  await requireSpacePermission(spaceId, 'manage_invites');
+
+  const { error } = await deleteSpaceInvite(inviteId);
+  if (error) throw error;
+}
+
+/**
+ * QR code for an invite link, for members joining in person
+ */
+export async function getInviteQRCode(inviteUrl: string): Promise<string> {
+  const { generateQRCodeDataURL } = await import('@gigwidget/sync');
+  return generateQRCodeDataURL(inviteUrl, { size: 320 });
+}
+
+// ============================================================================
+// Shared Songs
+// ============================================================================
+
+/**
+ * Share songs into a space. Each song is pushed to the cloud first, so
+ * members can read it.
+ */
+export async function shareSongsToSpace(songs: Song[], spaceId: string): Promise<void> {
+  const supabaseUserId = requireSupabaseUserId();
+  await requireSpacePermission(spaceId, 'share_songs');
+  const { SongRepository, getDatabase } = await import('@gigwidget/db');
+  const { syncSongToCloud } = await import('./syncStore.svelte');
+  const [user] = await getDatabase().users.toArray();
+
+  for (const song of songs) {
+    if (song.visibility === 'private') {
+      await SongRepository.update(song.id, { visibility: 'space' });
+    }
+    const updated = await SongRepository.getById(song.id);
+    if (updated) await syncSongToCloud(updated);
+
+    const { error } = await shareSongToSpace(supabaseUserId, spaceId, song.id);
+    if (error) throw error;
+    await SongRepository.addToSpace(song.id, spaceId, user ?? null);
+    await recordSpaceActivity(spaceId, 'song_added', { songId: song.id, songTitle: song.title });
+  }
+}
+
+/**
+ * Stop sharing a song in a space. Songs no longer in any group space go
+ * back to private. songTitle names other members' songs in the activity feed.
+ */
+export async function unshareSong(songId: string, spaceId: string, songTitle?: string): Promise<void> {
+  await requireSpacePermission(spaceId, 'remove_shared_songs');
+  const { error } = await unshareSongFromSpace(spaceId, songId);
+  if (error) throw error;
+
+  const { SongRepository, getDatabase } = await import('@gigwidget/db');
+  const song = await SongRepository.getById(songId);
+  await recordSpaceActivity(spaceId, 'song_removed', { songId, songTitle: song?.title ?? songTitle });
+  if (!song) return;
+
+  await SongRepository.removeFromSpace(songId, spaceId);
+  const remaining = await getDatabase().spaces
+    .where('id')
+    .anyOf(song.spaceIds.filter((id: string) => id !== spaceId))
+    .filter((s: Space) => s.type === 'group')
+    .count();
+  if (remaining === 0 && song.visibility === 'space') {
+    await SongRepository.update(songId, { visibility: 'private' });
+    const { syncSongToCloud } = await import('./syncStore.svelte');
+    const updated = await SongRepository.getById(songId);
+    if (updated) await syncSongToCloud(updated);
+  }
+}
+
+// ============================================================================
+// Activity
+// ============================================================================
+
+/**
+ * Record an arrangement edit in every group space its song is shared in.
+ * The replaced content goes with it, so every member can see the diff;
+ * snapshotId is the local snapshot of the replaced version.
+ */
+export async function recordArrangementEdited(
+  song: Song,
+  arrangement: Arrangement,
+  previousContent: string,
+  snapshotId?: string
+): Promise<void> {
+  for (const spaceId of await getGroupSpaceIds(song.spaceIds)) {
+    await recordSpaceActivity(spaceId, 'arrangement_edited', {
+      songId: song.id,
+      songTitle: song.title,
+      arrangementId: arrangement.id,
+      snapshotId,
+      previousContent,
+      content: arrangement.content,
+    });
+  }
+}
+
+/**
+ * Record a setlist reorder. Setlists aren't shared in spaces themselves, so
+ * it goes to the group spaces sharing any of the setlist's songs.
+ */
+export async function recordSetlistReordered(set: SongSet): Promise<void> {
+  if (!set.isSetlist) return;
+
+  const { getDatabase } = await import('@gigwidget/db');
+  const songs = await getDatabase().songs.bulkGet(set.songIds);
+  const spaceIds = await getGroupSpaceIds(songs.flatMap((song: Song | undefined) => song?.spaceIds ?? []));
+  for (const spaceId of spaceIds) {
+    await recordSpaceActivity(spaceId, 'setlist_reordered', { setId: set.id, setName: set.name });
+  }
+}
+
+async function getGroupSpaceIds(spaceIds: string[]): Promise<string[]> {
+  if (spaceIds.length === 0 || !getSupabaseUserId()) return [];
+  const { getDatabase } = await import('@gigwidget/db');
+  const spaces = await getDatabase().spaces.where('id').anyOf([...new Set(spaceIds)]).toArray();
+  return spaces.filter((space: Space) => space.type === 'group').map((space: Space) => space.id);
+}
@@ -1,6 +1,6 @@
 import { createClient, type RealtimeChannel, type SupabaseClient } from '@supabase/supabase-js';
 import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
-import type { Song, SongType, Visibility } from '@gigwidget/core';
+import type { Arrangement, Instrument, MemberRole, Song, SongType, Visibility } from '@gigwidget/core';
 
 // ============================================================================
 // Supabase Client Setup
@@ -331,6 +331,162 @@ export async function deleteSongFromSupabase(
   }
 }
 
+// ============================================================================
+// Arrangements
+// ============================================================================
+
+export interface SupabaseArrangement {
+  id: string;
+  song_id: string;
+  user_id: string;
+  instrument: Instrument;
+  tuning: string | null;
+  capo: number | null;
+  content: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert a local Arrangement to Supabase format
+ */
+function toSupabaseArrangement(userId: string, arrangement: Arrangement): SupabaseArrangement {
+  return {
+    id: arrangement.id,
+    song_id: arrangement.songId,
+    user_id: userId,
+    instrument: arrangement.instrument,
+    tuning: arrangement.tuning ?? null,
+    capo: arrangement.capo ?? null,
+    content: arrangement.content,
+    version: arrangement.version,
+    created_at: new Date(arrangement.createdAt).toISOString(),
+    updated_at: new Date(arrangement.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Convert a Supabase arrangement to local Arrangement fields.
+ * baseVersionHash is local-only and left to the caller.
+ */
+export function fromSupabaseArrangement(row: SupabaseArrangement): Partial<Arrangement> {
+  return {
+    id: row.id,
+    songId: row.song_id,
+    instrument: row.instrument,
+    tuning: row.tuning ?? undefined,
+    capo: row.capo ?? undefined,
+    content: row.content,
+    version: row.version,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Save arrangements of a song to Supabase.
+ * Cloud arrangements not in the list are left alone: they may have been
+ * added on another device. Deletions go through deleteArrangementsFromSupabase.
+ */
+export async function saveArrangementsToSupabase(
+  userId: string,
+  arrangements: Arrangement[]
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    if (arrangements.length > 0) {
+      const { error } = await supabase
+        .from('arrangements')
+        .upsert(arrangements.map((a) => toSupabaseArrangement(userId, a)), {
+          onConflict: 'id',
+        });
+
+      if (error) {
+        console.error('Error saving arrangements to Supabase:', error);
+        return { error };
+      }
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception saving arrangements:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Delete arrangements the user removed from Supabase
+ */
+export async function deleteArrangementsFromSupabase(
+  arrangementIds: string[]
+): Promise<{ success?: boolean; error?: unknown }> {
+  if (arrangementIds.length === 0) return { success: true };
+
+  try {
+    const { error } = await supabase.from('arrangements').delete().in('id', arrangementIds);
+
+    if (error) {
+      console.error('Error deleting arrangements from Supabase:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception deleting arrangements:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load all arrangements owned by a user
+ */
+export async function loadArrangementsFromSupabase(
+  userId: string
+): Promise<{ data?: SupabaseArrangement[]; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('arrangements')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error loading arrangements from Supabase:', error);
+      return { error };
+    }
+
+    console.log(`Loaded ${data?.length || 0} arrangements from Supabase`);
+    return { data: data as SupabaseArrangement[] };
+  } catch (err) {
+    console.error('Exception loading arrangements:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load the arrangements of one song, oldest (default) first
+ */
+export async function loadSongArrangementsFromSupabase(
+  songId: string
+): Promise<{ data?: SupabaseArrangement[]; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('arrangements')
+      .select('*')
+      .eq('song_id', songId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading song arrangements from Supabase:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseArrangement[] };
+  } catch (err) {
+    console.error('Exception loading song arrangements:', err);
+    return { error: err };
+  }
+}
+
 // ============================================================================
 // Real-time Subscriptions (Supabase v2 Channel API)
 // ============================================================================
@@ -377,6 +533,40 @@ export function subscribeToSongs(
   return channel;
 }
 
+export interface ArrangementChangePayload {
+  eventType: SongChangeEvent;
+  new: SupabaseArrangement | null;
+  old: { id: string } | null;
+}
+
+/**
+ * Subscribe to real-time updates on user's arrangements
+ */
+export function subscribeToArrangements(
+  userId: string,
+  callback: (payload: ArrangementChangePayload) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`arrangements:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'arrangements',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        callback({
+          eventType: payload.eventType as SongChangeEvent,
+          new: payload.new as SupabaseArrangement | null,
+          old: payload.old as { id: string } | null,
+        });
+      }
+    )
+    .subscribe();
+}
+
 /**
  * Unsubscribe from a channel
  */
@@ -1386,3 +1576,560 @@ export async function getPublicSongById(
     return { error: err };
   }
 }
+
+/**
+ * Get a song the current user can read: public songs, and songs shared in
+ * their spaces (row-level security decides which)
+ */
+export async function getViewableSongById(
+  songId: string
+): Promise<{ data?: SupabaseSong; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('songs')
+      .select('*')
+      .eq('id', songId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return { data: undefined };
+      }
+      console.error('Error getting song by ID:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSong };
+  } catch (err) {
+    console.error('Exception getting song by ID:', err);
+    return { error: err };
+  }
+}
+
+// ============================================================================
+// Spaces (Group Libraries)
+// ============================================================================
+
+export interface SupabaseSpace {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  type: 'group' | 'public';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupabaseSpaceMember {
+  space_id: string;
+  user_id: string;
+  role: MemberRole;
+  display_name: string;
+  joined_at: string;
+}
+
+export interface SupabaseSpaceInvite {
+  id: string;
+  space_id: string;
+  token: string; // Signed by the database
+  email: string | null;
+  role: Exclude<MemberRole, 'owner'>;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface SupabaseSpaceSong {
+  space_id: string;
+  song_id: string;
+  added_by: string;
+  added_at: string;
+}
+
+/** Who wrote a space activity entry, as recorded by the writer */
+export interface SupabaseSpaceActivity {
+  id: string;
+  space_id: string;
+  actor_id: string;
+  actor_name: string;
+  type: string;
+  created_at: string;
+}
+
+/** What an invitee sees before joining */
+export interface SpaceInvitePreview {
+  space_id: string;
+  space_name: string;
+  role: Exclude<MemberRole, 'owner'>;
+  email: string | null;
+  expires_at: string;
+}
+
+/**
+ * Load all spaces the user owns or is a member of
+ */
+export async function loadSpacesFromSupabase(): Promise<{ data?: SupabaseSpace[]; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('spaces')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error loading spaces from Supabase:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpace[] };
+  } catch (err) {
+    console.error('Exception loading spaces:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Create or update a space. The owner is added as a member by the database.
+ */
+export async function saveSpaceToSupabase(
+  userId: string,
+  space: { id: string; name: string; description?: string }
+): Promise<{ data?: SupabaseSpace; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('spaces')
+      .upsert({
+        id: space.id,
+        owner_id: userId,
+        name: space.name,
+        description: space.description ?? null,
+        type: 'group',
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'id',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving space to Supabase:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpace };
+  } catch (err) {
+    console.error('Exception saving space:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Delete a space (owners only). Members, invites and shares go with it.
+ */
+export async function deleteSpaceFromSupabase(
+  spaceId: string
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('spaces')
+      .delete()
+      .eq('id', spaceId);
+
+    if (error) {
+      console.error('Error deleting space from Supabase:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception deleting space:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load the members of the given spaces
+ */
+export async function loadSpaceMembers(
+  spaceIds: string[]
+): Promise<{ data?: SupabaseSpaceMember[]; error?: unknown }> {
+  if (spaceIds.length === 0) return { data: [] };
+
+  try {
+    const { data, error } = await supabase
+      .from('space_members')
+      .select('*')
+      .in('space_id', spaceIds);
+
+    if (error) {
+      console.error('Error loading space members:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpaceMember[] };
+  } catch (err) {
+    console.error('Exception loading space members:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Change a member's role (owners only)
+ */
+export async function updateSpaceMemberRole(
+  spaceId: string,
+  userId: string,
+  role: MemberRole
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_members')
+      .update({ role })
+      .eq('space_id', spaceId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception updating member role:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Remove a member (owners), or leave a space (any member removing themselves)
+ */
+export async function removeSpaceMember(
+  spaceId: string,
+  userId: string
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_members')
+      .delete()
+      .eq('space_id', spaceId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing space member:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception removing space member:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Create an invite. The database signs its token. With an email, only
+ * that user can accept it, once.
+ */
+export async function createSpaceInvite(
+  userId: string,
+  spaceId: string,
+  options: {
+    role: Exclude<MemberRole, 'owner'>;
+    expiresAt: Date;
+    email?: string;
+    maxUses?: number;
+  }
+): Promise<{ data?: SupabaseSpaceInvite; error?: unknown }> {
+  try {
+    const email = options.email?.trim().toLowerCase() || null;
+
+    const { data, error } = await supabase
+      .from('space_invites')
+      .insert({
+        space_id: spaceId,
+        email,
+        role: options.role,
+        max_uses: email ? 1 : (options.maxUses ?? null),
+        expires_at: options.expiresAt.toISOString(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating space invite:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpaceInvite };
+  } catch (err) {
+    console.error('Exception creating space invite:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load the unexpired invites of a space (owners only). Used-up invites
+ * are included.
+ */
+export async function loadSpaceInvites(
+  spaceId: string
+): Promise<{ data?: SupabaseSpaceInvite[]; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('space_invites')
+      .select('*')
+      .eq('space_id', spaceId)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading space invites:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpaceInvite[] };
+  } catch (err) {
+    console.error('Exception loading space invites:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Delete an invite so its link stops working
+ */
+export async function deleteSpaceInvite(
+  inviteId: string
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_invites')
+      .delete()
+      .eq('id', inviteId);
+
+    if (error) {
+      console.error('Error deleting space invite:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception deleting space invite:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Look up an invite by token, before joining. Fails with a message for the
+ * invitee if the token is invalid, revoked, expired or used up.
+ */
+export async function getSpaceInvite(
+  token: string
+): Promise<{ data?: SpaceInvitePreview; error?: unknown }> {
+  try {
+    const { data, error } = await supabase.rpc('get_space_invite', { invite_token: token });
+
+    if (error) {
+      console.error('Error getting space invite:', error);
+      return { error };
+    }
+
+    return { data: (data as SpaceInvitePreview[])[0] };
+  } catch (err) {
+    console.error('Exception getting space invite:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Join a space with an invite token. Returns the space ID.
+ */
+export async function acceptSpaceInvite(
+  token: string
+): Promise<{ data?: string; error?: unknown }> {
+  try {
+    const { data, error } = await supabase.rpc('accept_space_invite', { invite_token: token });
+
+    if (error) {
+      console.error('Error accepting space invite:', error);
+      return { error };
+    }
+
+    return { data: data as string };
+  } catch (err) {
+    console.error('Exception accepting space invite:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load which songs are shared in the given spaces
+ */
+export async function loadSpaceSongs(
+  spaceIds: string[]
+): Promise<{ data?: SupabaseSpaceSong[]; error?: unknown }> {
+  if (spaceIds.length === 0) return { data: [] };
+
+  try {
+    const { data, error } = await supabase
+      .from('space_songs')
+      .select('*')
+      .in('space_id', spaceIds);
+
+    if (error) {
+      console.error('Error loading space songs:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpaceSong[] };
+  } catch (err) {
+    console.error('Exception loading space songs:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load the songs shared in a space, including other members' songs
+ */
+export async function loadSharedSongs(
+  spaceId: string
+): Promise<{ data?: SupabaseSong[]; error?: unknown }> {
+  const { data: shares, error: sharesError } = await loadSpaceSongs([spaceId]);
+  if (sharesError) return { error: sharesError };
+
+  const songIds = (shares ?? []).map((s) => s.song_id);
+  if (songIds.length === 0) return { data: [] };
+
+  try {
+    const { data, error } = await supabase
+      .from('songs')
+      .select('*')
+      .in('id', songIds)
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('Error loading shared songs:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSong[] };
+  } catch (err) {
+    console.error('Exception loading shared songs:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Share one of the user's songs into a space (owners and editors).
+ * The song must already be in the cloud.
+ */
+export async function shareSongToSpace(
+  userId: string,
+  spaceId: string,
+  songId: string
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_songs')
+      .upsert({
+        space_id: spaceId,
+        song_id: songId,
+        added_by: userId,
+      }, {
+        onConflict: 'space_id,song_id',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      console.error('Error sharing song to space:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception sharing song to space:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Stop sharing a song in a space
+ */
+export async function unshareSongFromSpace(
+  spaceId: string,
+  songId: string
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_songs')
+      .delete()
+      .eq('space_id', spaceId)
+      .eq('song_id', songId);
+
+    if (error) {
+      console.error('Error unsharing song from space:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception unsharing song from space:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Record that the user wrote a space activity entry. The database only
+ * accepts rows naming the signed-in user as the actor.
+ */
+export async function saveSpaceActivityToSupabase(
+  userId: string,
+  activity: { id: string; spaceId: string; actorName: string; type: string }
+): Promise<{ success?: boolean; error?: unknown }> {
+  try {
+    const { error } = await supabase
+      .from('space_activity')
+      .insert({
+        id: activity.id,
+        space_id: activity.spaceId,
+        actor_id: userId,
+        actor_name: activity.actorName,
+        type: activity.type,
+      });
+
+    if (error) {
+      console.error('Error saving space activity:', error);
+      return { error };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Exception saving space activity:', err);
+    return { error: err };
+  }
+}
+
+/**
+ * Load who wrote each of a space's activity entries
+ */
+export async function loadSpaceActivityFromSupabase(
+  spaceId: string
+): Promise<{ data?: SupabaseSpaceActivity[]; error?: unknown }> {
+  try {
+    const { data, error } = await supabase
+      .from('space_activity')
+      .select('*')
+      .eq('space_id', spaceId);
+
+    if (error) {
+      console.error('Error loading space activity:', error);
+      return { error };
+    }
+
+    return { data: data as SupabaseSpaceActivity[] };
+  } catch (err) {
+    console.error('Exception loading space activity:', err);
+    return { error: err };
+  }
+}
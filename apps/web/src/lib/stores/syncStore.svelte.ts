@@ -5,14 +5,20 @@
 
 import { browser } from '$app/environment';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-import type { Song, CustomInstrument, SongSet, SavedSong } from '@gigwidget/core';
+import type { Song, Arrangement, CustomInstrument, SongSet, SavedSong } from '@gigwidget/core';
 import {
   supabase,
   saveSongToSupabase,
   loadSongsFromSupabase,
   deleteSongFromSupabase,
   subscribeToSongs,
+  subscribeToArrangements,
   unsubscribe,
+  saveArrangementsToSupabase,
+  deleteArrangementsFromSupabase,
+  loadArrangementsFromSupabase,
+  loadSongArrangementsFromSupabase,
+  fromSupabaseArrangement,
   getProfile,
   upsertProfile,
   uploadAvatar,
@@ -28,7 +34,9 @@ import {
   saveSavedSongReference,
   deleteSavedSongReference,
   type SupabaseSong,
+  type SupabaseArrangement,
   type SongChangePayload,
+  type ArrangementChangePayload,
   type SupabaseProfile,
   type SupabasePreferences,
   type SupabaseCustomInstrument,
@@ -36,6 +44,19 @@ import {
   type SupabaseSavedSong,
 } from './supabaseStore';
 import { getSupabaseUserId, isAuthenticated } from './authStore.svelte';
+import { updateArrangementContent, putArrangementInDoc, removeArrangementFromDoc, deleteSongDoc } from './songDocStore';
+import {
+  startLibrarySync,
+  stopLibrarySync,
+  isDeletedInLibrary,
+  recordSong,
+  recordCollection,
+  recordSongsDeleted,
+  recordArrangementsDeleted,
+  recordCollectionDeleted,
+} from './libraryDocStore';
+import { syncSpacesFromCloud } from './spaceStore';
+import { stopAllSpaceSync } from './spaceDocStore';
 
 // ============================================================================
 // Types
@@ -59,6 +80,7 @@ let lastSyncAt = $state<Date | null>(null);
 let pendingChanges = $state(0);
 let syncError = $state<string | null>(null);
 let realtimeChannel = $state<RealtimeChannel | null>(null);
+let arrangementsChannel = $state<RealtimeChannel | null>(null);
 let initialized = $state(false);
 
 // ============================================================================
@@ -107,6 +129,14 @@ export async function initializeSync(): Promise<void> {
   console.log('[Sync] Initializing sync for user:', userId);
 
   try {
+    // Open the library document first: its tombstones decide which songs
+    // are deleted rather than pushed (non-blocking)
+    try {
+      await startLibrarySync(userId);
+    } catch (err) {
+      console.error('[Sync] Library document failed to connect (continuing):', err);
+    }
+
     // Perform initial sync
     await performInitialSync(userId);
 
@@ -127,6 +157,12 @@ export async function stopSync(): Promise<void> {
     await unsubscribe(realtimeChannel);
     realtimeChannel = null;
   }
+  if (arrangementsChannel) {
+    await unsubscribe(arrangementsChannel);
+    arrangementsChannel = null;
+  }
+  await stopLibrarySync();
+  await stopAllSpaceSync();
   initialized = false;
   syncStatus = 'idle';
   console.log('[Sync] Sync stopped');
@@ -210,6 +246,19 @@ async function performInitialSync(userId: string): Promise<void> {
       throw new Error(`Failed to load cloud songs: ${loadError}`);
     }
 
+    // Load all arrangements; songs synced before the arrangements table
+    // existed fall back to songs.content
+    const { data: cloudArrangements, error: arrangementsError } = await loadArrangementsFromSupabase(userId);
+    if (arrangementsError) {
+      console.warn('[Sync] Failed to load cloud arrangements, using song content only:', arrangementsError);
+    }
+    const cloudArrangementsBySong = new Map<string, SupabaseArrangement[]>();
+    for (const row of cloudArrangements ?? []) {
+      const list = cloudArrangementsBySong.get(row.song_id) ?? [];
+      list.push(row);
+      cloudArrangementsBySong.set(row.song_id, list);
+    }
+
     // Load local songs
     const localSongs = await db.songs.where('ownerId').equals(localUser.id).toArray();
     const allArrangements = await db.arrangements.toArray();
@@ -284,15 +333,30 @@ async function performInitialSync(userId: string): Promise<void> {
     localSongs.forEach(s => localSongMap.set(s.id, s));
 
     // Sync strategy:
-    // 1. Songs only in cloud -> pull to local
-    // 2. Songs only in local -> push to cloud
-    // 3. Songs in both -> compare updated_at, newer wins
+    // 1. Songs deleted on any device (library tombstones) -> delete everywhere
+    // 2. Songs only in cloud -> pull to local
+    // 3. Songs only in local -> push to cloud
+    // 4. Songs in both -> compare updated_at, newer wins
+
+    for (const song of [...(cloudSongs ?? []), ...localSongs]) {
+      if (!(await isDeletedInLibrary(song.id))) continue;
+      if (cloudSongMap.delete(song.id)) {
+        console.log(`[Sync] Deleting song deleted on another device from cloud: ${song.title}`);
+        await deleteSongFromSupabase(song.id);
+      }
+      if (localSongMap.delete(song.id)) {
+        console.log(`[Sync] Deleting song deleted on another device: ${song.title}`);
+        await deleteSongDoc(song.id);
+      }
+    }
+    const liveCloudSongs = [...cloudSongMap.values()];
+    const liveLocalSongs = [...localSongMap.values()];
 
     // Pull cloud-only songs to local
-    for (const cloudSong of cloudSongs ?? []) {
+    for (const cloudSong of liveCloudSongs) {
       if (!localSongMap.has(cloudSong.id)) {
         console.log(`[Sync] Pulling cloud song: ${cloudSong.title}`);
-        await pullSongToLocal(db, localUser.id, cloudSong);
+        await pullSongToLocal(db, localUser.id, cloudSong, cloudArrangementsBySong.get(cloudSong.id));
       } else {
         // Both exist - compare timestamps
         const localSong = localSongMap.get(cloudSong.id)!;
@@ -301,8 +365,16 @@ async function performInitialSync(userId: string): Promise<void> {
 
         if (cloudUpdated > localUpdated) {
           console.log(`[Sync] Cloud newer, pulling: ${cloudSong.title}`);
-          await pullSongToLocal(db, localUser.id, cloudSong);
+          const merged = await pullSongToLocal(db, localUser.id, cloudSong, cloudArrangementsBySong.get(cloudSong.id));
+          if (merged) {
+            await pushMergedSong(db, userId, cloudSong.id);
+          }
         } else if (localUpdated > cloudUpdated) {
+          // Cloud edits made since the last sync are merged (or recorded
+          // as conflicts) before the local version is pushed over them
+          for (const row of cloudArrangementsBySong.get(cloudSong.id) ?? []) {
+            await pullArrangementToLocal(db, row);
+          }
           console.log(`[Sync] Local newer, pushing: ${localSong.title}`);
           await pushSongToCloud(userId, localSong);
         }
@@ -310,11 +382,11 @@ async function performInitialSync(userId: string): Promise<void> {
     }
 
     // Push local-only songs to cloud
-    const localOnlySongs = localSongs.filter(s => !cloudSongMap.has(s.id));
+    const localOnlySongs = liveLocalSongs.filter(s => !cloudSongMap.has(s.id));
     const totalToPush = localOnlySongs.length;
 
     // Check how many songs match between local and cloud (proves ID system is working)
-    const matchingCount = localSongs.filter(s => cloudSongMap.has(s.id)).length;
+    const matchingCount = liveLocalSongs.filter(s => cloudSongMap.has(s.id)).length;
 
     // Debug: Log IDs to help diagnose sync issues
     if (localSongs.length > 0 && cloudSongs && cloudSongs.length > 0) {
@@ -361,6 +433,21 @@ async function performInitialSync(userId: string): Promise<void> {
       console.log(`[Sync] Pushed ${pushed}/${totalToPush} songs to cloud`);
     }
 
+    // Sync group spaces and which songs are shared in them (non-blocking)
+    console.log('[Sync] Syncing spaces...');
+    try {
+      await syncSpacesFromCloud();
+      console.log('[Sync] Spaces sync done');
+    } catch (err) {
+      console.error('[Sync] Spaces sync failed (continuing):', err);
+    }
+
+    // Record the reconciled library, so renames reach other devices
+    const syncedSongs = await db.songs.where('ownerId').equals(localUser.id).toArray();
+    for (const song of syncedSongs) {
+      await recordSong(song);
+    }
+
     lastSyncAt = new Date();
     syncStatus = 'idle';
     pendingChanges = 0;
@@ -596,8 +683,21 @@ async function syncSongSetsFromCloud(
   const localMap = new Map<string, SongSet>();
   localSets.forEach(s => localMap.set(s.id, s));
 
+  // Sets deleted on any device are deleted everywhere
+  for (const set of [...(cloudSets ?? []), ...localSets]) {
+    if (!(await isDeletedInLibrary(set.id))) continue;
+    if (cloudMap.delete(set.id)) {
+      console.log(`[Sync] Deleting set deleted on another device from cloud: ${set.name}`);
+      await deleteSongSetFromSupabase(set.id);
+    }
+    if (localMap.delete(set.id)) {
+      console.log(`[Sync] Deleting set deleted on another device: ${set.name}`);
+      await SongSetRepository.delete(set.id);
+    }
+  }
+
   // Pull cloud-only sets to local
-  for (const cloudSet of cloudSets ?? []) {
+  for (const cloudSet of cloudMap.values()) {
     if (!localMap.has(cloudSet.id)) {
       console.log(`[Sync] Pulling cloud set: ${cloudSet.name}`);
       await SongSetRepository.create({
@@ -646,7 +746,7 @@ async function syncSongSetsFromCloud(
   }
 
   // Push local-only sets to cloud
-  for (const localSet of localSets) {
+  for (const localSet of localMap.values()) {
     if (!cloudMap.has(localSet.id)) {
       console.log(`[Sync] Pushing local set: ${localSet.name}`);
       await saveSongSetToSupabase(supabaseUserId, {
@@ -661,6 +761,10 @@ async function syncSongSetsFromCloud(
     }
   }
 
+  for (const set of await SongSetRepository.getByUser(localUserId)) {
+    await recordCollection(set);
+  }
+
   console.log('[Sync] Song sets sync complete');
 }
 
@@ -740,8 +844,14 @@ function setupRealtimeSubscription(userId: string): void {
       switch (payload.eventType) {
         case 'INSERT':
         case 'UPDATE':
-          if (payload.new) {
-            await pullSongToLocal(db, localUser.id, payload.new);
+          // A device that missed the delete may push it back
+          if (payload.new && (await isDeletedInLibrary(payload.new.id))) {
+            await deleteSongFromSupabase(payload.new.id);
+          } else if (payload.new) {
+            const { data: cloudArrangements } = await loadSongArrangementsFromSupabase(payload.new.id);
+            if (await pullSongToLocal(db, localUser.id, payload.new, cloudArrangements)) {
+              await pushMergedSong(db, userId, payload.new.id);
+            }
           }
           break;
         case 'DELETE':
@@ -750,8 +860,9 @@ function setupRealtimeSubscription(userId: string): void {
             const localSong = await db.songs.get(payload.old.id);
             if (localSong) {
               console.log(`[Sync] Deleting local song: ${localSong.title}`);
-              await db.songs.delete(payload.old.id);
+              await deleteSongDoc(payload.old.id);
             }
+            await recordSongsDeleted([payload.old.id]);
           }
           break;
       }
@@ -759,21 +870,60 @@ function setupRealtimeSubscription(userId: string): void {
       console.error('[Sync] Failed to handle real-time event:', err);
     }
   });
+
+  arrangementsChannel = subscribeToArrangements(userId, async (payload: ArrangementChangePayload) => {
+    try {
+      const { getDatabase } = await import('@gigwidget/db');
+      const db = getDatabase();
+
+      switch (payload.eventType) {
+        case 'INSERT':
+        case 'UPDATE':
+          if (payload.new && (await db.songs.get(payload.new.song_id))) {
+            if ((await pullArrangementToLocal(db, payload.new)) === 'merged') {
+              await db.songs.update(payload.new.song_id, { updatedAt: new Date() });
+              await pushMergedSong(db, userId, payload.new.song_id);
+            }
+          }
+          break;
+        case 'DELETE':
+          if (payload.old?.id) {
+            const existing = await db.arrangements.get(payload.old.id);
+            if (existing) await removeArrangementFromDoc(existing.songId, existing.id);
+          }
+          break;
+      }
+    } catch (err) {
+      console.error('[Sync] Failed to handle arrangement real-time event:', err);
+    }
+  });
 }
 
 // ============================================================================
 // Sync Operations
 // ============================================================================
 
+type LocalDatabase = Awaited<ReturnType<typeof import('@gigwidget/db').getDatabase>>;
+
 /**
  * Pull a cloud song to local IndexedDB.
- * Creates both the song and arrangement records.
+ * Creates both the song and arrangement records. Without cloud
+ * arrangements (songs synced before the arrangements table), the
+ * default arrangement is filled from songs.content.
+ *
+ * Local arrangements missing from the cloud are kept (they may not be
+ * pushed yet); ones deleted on another device are removed by their
+ * library tombstones.
+ *
+ * Returns true if local and cloud edits were merged, so the song needs
+ * pushing back.
  */
 async function pullSongToLocal(
-  db: Awaited<ReturnType<typeof import('@gigwidget/db').getDatabase>>,
+  db: LocalDatabase,
   localUserId: string,
-  cloudSong: SupabaseSong
-): Promise<void> {
+  cloudSong: SupabaseSong,
+  cloudArrangements?: SupabaseArrangement[]
+): Promise<boolean> {
   // Check if song exists locally (to preserve local-only fields)
   const existingSong = await db.songs.get(cloudSong.id);
 
@@ -800,10 +950,34 @@ async function pullSongToLocal(
   };
   await db.songs.put(newSong);
 
+  if (cloudArrangements && cloudArrangements.length > 0) {
+    let merged = false;
+    for (const row of cloudArrangements) {
+      if ((await pullArrangementToLocal(db, row)) === 'merged') merged = true;
+    }
+
+    // Arrangements deleted while this device's library wasn't connected
+    const localArrangements = await db.arrangements.where('songId').equals(cloudSong.id).toArray();
+    for (const arrangement of localArrangements) {
+      if (await isDeletedInLibrary(arrangement.id)) {
+        console.log(`[Sync] Removing deleted arrangement ${arrangement.id} of "${cloudSong.title}"`);
+        await removeArrangementFromDoc(cloudSong.id, arrangement.id);
+      }
+    }
+
+    if (merged) {
+      await db.songs.update(cloudSong.id, { updatedAt: new Date() });
+    }
+    return merged;
+  }
+
   // Create or update arrangement with content from cloud
   // This matches how addToLibrary works in the browse page
   if (cloudSong.content !== undefined) {
-    const existingArrangement = await db.arrangements.where('songId').equals(cloudSong.id).first();
+    const { sortArrangements } = await import('@gigwidget/core');
+    const [existingArrangement] = sortArrangements(
+      await db.arrangements.where('songId').equals(cloudSong.id).toArray()
+    );
 
     if (existingArrangement) {
       // Update existing arrangement's content if cloud is newer
@@ -812,10 +986,7 @@ async function pullSongToLocal(
 
       if (cloudUpdated > localUpdated) {
         console.log(`[Sync] Updating arrangement for "${cloudSong.title}" with ${cloudSong.content?.length ?? 0} chars`);
-        await db.arrangements.update(existingArrangement.id, {
-          content: cloudSong.content ?? '',
-          updatedAt: new Date(),
-        });
+        await updateArrangementContent(cloudSong.id, existingArrangement.id, cloudSong.content ?? '');
       }
     } else {
       // Create new arrangement
@@ -823,20 +994,146 @@ async function pullSongToLocal(
       const arrangement = createArrangement(cloudSong.id, 'guitar', {
         content: cloudSong.content ?? '',
       });
-      await db.arrangements.put(arrangement);
+      await putArrangementInDoc(arrangement);
     }
   }
+  return false;
+}
+
+/** What pulling a cloud arrangement did to the local copy */
+type ArrangementPullResult = 'unchanged' | 'pulled' | 'merged' | 'conflict';
+
+/**
+ * Pull one cloud arrangement to local IndexedDB.
+ *
+ * When both the local and the cloud copy changed since the last sync, the
+ * edits are merged if they don't overlap ('merged': the result still needs
+ * pushing). Otherwise a ConflictInfo is recorded for the conflicts page and
+ * the local content is kept. Arrangements synced before the base version
+ * was tracked fall back to newer-wins. Arrangements deleted on any device
+ * are removed from the cloud instead.
+ */
+async function pullArrangementToLocal(db: LocalDatabase, row: SupabaseArrangement): Promise<ArrangementPullResult> {
+  const { markArrangementSynced, matchesContentHash, detectConflict, autoMergeConflict } =
+    await import('@gigwidget/core');
+  const remote = fromSupabaseArrangement(row) as Arrangement;
+  const existing = await db.arrangements.get(row.id);
+
+  // A device that missed the delete may have pushed it back
+  if (await isDeletedInLibrary(row.id)) {
+    await deleteArrangementsFromSupabase([row.id]);
+    if (existing) await removeArrangementFromDoc(existing.songId, existing.id);
+    return 'unchanged';
+  }
+
+  if (!existing) {
+    await putPulledArrangement(markArrangementSynced(remote));
+    return 'pulled';
+  }
+
+  if (existing.content === row.content) {
+    if (!matchesContentHash(existing.content, existing.baseVersionHash)) {
+      const { baseVersionHash, baseContent } = markArrangementSynced(existing);
+      await db.arrangements.update(existing.id, { baseVersionHash, baseContent });
+    }
+    return 'unchanged';
+  }
+
+  const remoteNewer = new Date(row.updated_at) > new Date(existing.updatedAt);
+  if (existing.baseContent === undefined) {
+    if (!remoteNewer) return 'unchanged';
+    await putPulledArrangement(markArrangementSynced(remote));
+    return 'pulled';
+  }
+
+  const conflict = detectConflict(existing, {
+    content: row.content,
+    updatedAt: new Date(row.updated_at),
+    userId: row.user_id,
+  });
+
+  if (!conflict) {
+    // Only one side changed: local edits are pushed later, remote edits are taken
+    if (matchesContentHash(row.content, existing.baseVersionHash)) return 'unchanged';
+    await putPulledArrangement(markArrangementSynced(remote));
+    return 'pulled';
+  }
+
+  const merged = autoMergeConflict(conflict);
+  if (merged !== null) {
+    console.log(`[Sync] Merged local and cloud edits of arrangement ${existing.id}`);
+    await putPulledArrangement(
+      markArrangementSynced(
+        { ...existing, content: merged, version: Math.max(existing.version, row.version) + 1, updatedAt: new Date() },
+        row.content
+      )
+    );
+    return 'merged';
+  }
+
+  // One pending conflict per arrangement, showing the latest cloud version
+  const { ConflictRepository } = await import('@gigwidget/db');
+  const pending = await ConflictRepository.getPendingByArrangement(existing.id);
+  if (pending) {
+    await ConflictRepository.update(pending.id, {
+      localContent: conflict.localContent,
+      remoteContent: conflict.remoteContent,
+      localUpdatedAt: conflict.localUpdatedAt,
+      remoteUpdatedAt: conflict.remoteUpdatedAt,
+      detectedAt: conflict.detectedAt,
+    });
+  } else {
+    console.log(`[Sync] Conflict in arrangement ${existing.id}, keeping local content`);
+    await ConflictRepository.create(conflict);
+  }
+  return 'conflict';
 }
 
 /**
- * Push a local song to Supabase.
+ * Write a pulled arrangement whose content replaces local content. The
+ * content goes into the song document first, so an open editor's
+ * document doesn't keep the old text, then the rest of the record.
+ */
+async function putPulledArrangement(arrangement: Arrangement): Promise<void> {
+  await updateArrangementContent(arrangement.songId, arrangement.id, arrangement.content);
+  await putArrangementInDoc(arrangement);
+}
+
+/**
+ * Push a song whose arrangements were just merged with cloud edits.
+ */
+async function pushMergedSong(db: LocalDatabase, userId: string, songId: string): Promise<void> {
+  const song = await db.songs.get(songId);
+  if (song) {
+    console.log(`[Sync] Pushing merged edits: ${song.title}`);
+    await pushSongToCloud(userId, song);
+  }
+}
+
+/**
+ * Push a local song and all of its arrangements to Supabase.
+ * songs.content carries the default arrangement for browse/share pages.
+ *
+ * Arrangements with an unresolved conflict are not pushed: the cloud
+ * keeps the remote side and the base stays where the conflict was found,
+ * until the user resolves it on the conflicts page.
  */
 async function pushSongToCloud(userId: string, song: Song): Promise<void> {
-  // Get arrangement content if available
-  const { getDatabase } = await import('@gigwidget/db');
+  const { getDatabase, ConflictRepository } = await import('@gigwidget/db');
+  const { sortArrangements, markArrangementSynced } = await import('@gigwidget/core');
   const db = getDatabase();
-  const arrangements = await db.arrangements.where('songId').equals(song.id).toArray();
-  const content = arrangements[0]?.content ?? null;
+  const arrangements = sortArrangements(await db.arrangements.where('songId').equals(song.id).toArray());
+  let content = arrangements[0]?.content ?? null;
+
+  const pushable: Arrangement[] = [];
+  for (const arrangement of arrangements) {
+    const conflict = await ConflictRepository.getPendingByArrangement(arrangement.id);
+    if (!conflict) {
+      pushable.push(arrangement);
+    } else if (arrangement === arrangements[0]) {
+      content = conflict.remoteContent;
+    }
+  }
 
   // Debug: log arrangement details
   const contentLen = content?.length ?? 0;
@@ -858,6 +1155,23 @@ async function pushSongToCloud(userId: string, song: Song): Promise<void> {
     console.error('[Sync] Failed to push song:', error);
     throw error;
   }
+  await recordSong(song);
+
+  if (pushable.length > 0) {
+    const { error: arrangementsError } = await saveArrangementsToSupabase(userId, pushable);
+    if (arrangementsError) {
+      console.error('[Sync] Failed to push arrangements:', arrangementsError);
+      throw arrangementsError;
+    }
+
+    // What was pushed is the base for the next three-way merge. Only the
+    // base fields are written, so edits made during the push and updatedAt
+    // are left alone.
+    for (const arrangement of pushable) {
+      const { baseVersionHash, baseContent } = markArrangementSynced(arrangement);
+      await db.arrangements.update(arrangement.id, { baseVersionHash, baseContent });
+    }
+  }
 }
 
 // ============================================================================
@@ -890,11 +1204,13 @@ export async function syncSongToCloud(song: Song): Promise<void> {
 }
 
 /**
- * Delete a song from cloud.
+ * Delete a song from cloud. The library tombstone is recorded even if the
+ * cloud delete fails, so other devices still remove their copies.
  */
 export async function deleteSongFromCloud(songId: string): Promise<void> {
   if (!isAuthenticated()) return;
 
+  await recordSongsDeleted([songId]);
   try {
     await deleteSongFromSupabase(songId);
     console.log('[Sync] Song deleted from cloud');
@@ -903,6 +1219,22 @@ export async function deleteSongFromCloud(songId: string): Promise<void> {
   }
 }
 
+/**
+ * Delete an arrangement from cloud after it was removed locally. The
+ * tombstone is left first, so a failed delete is retried by the next sync.
+ */
+export async function deleteArrangementFromCloud(arrangementId: string): Promise<void> {
+  if (!isAuthenticated()) return;
+
+  await recordArrangementsDeleted([arrangementId]);
+  const { error } = await deleteArrangementsFromSupabase([arrangementId]);
+  if (error) {
+    console.error('[Sync] Failed to delete arrangement from cloud:', error);
+  } else {
+    console.log('[Sync] Arrangement deleted from cloud');
+  }
+}
+
 /**
  * Force a full re-sync.
  */
@@ -1075,6 +1407,7 @@ export async function syncSongSetToCloud(songSet: SongSet): Promise<{ error?: st
     if (error) {
       return { error: String(error) };
     }
+    await recordCollection(songSet);
 
     console.log('[Sync] Song set synced to cloud:', songSet.name);
     return {};
@@ -1090,6 +1423,7 @@ export async function syncSongSetToCloud(songSet: SongSet): Promise<{ error?: st
 export async function deleteSongSetFromCloud(setId: string): Promise<{ error?: string }> {
   if (!isAuthenticated()) return { error: 'Not authenticated' };
 
+  await recordCollectionDeleted(setId);
   try {
     const { error } = await deleteSongSetFromSupabase(setId);
     if (error) {
@@ -15,7 +15,7 @@ CREATE TABLE IF NOT EXISTS songs (
   time_signature INTEGER[] DEFAULT '{4,4}',
   tags TEXT[] DEFAULT '{}',
   visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'space', 'public')),
-  content TEXT, -- ChordPro content for the main arrangement
+  content TEXT, -- ChordPro content of the default arrangement (all arrangements live in the arrangements table)
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -282,6 +282,415 @@ CREATE TRIGGER update_system_chords_updated_at
 -- Enable real-time (optional - for live updates when mods create chords)
 ALTER PUBLICATION supabase_realtime ADD TABLE system_chords;
 
+-- ============================================================================
+-- Arrangements Table (one per instrument version of a song)
+-- songs.content keeps a copy of the default arrangement for browsing
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS arrangements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  song_id UUID NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  instrument TEXT NOT NULL,
+  tuning TEXT,
+  capo INTEGER,
+  content TEXT NOT NULL DEFAULT '',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS arrangements_song_id_idx ON arrangements(song_id);
+CREATE INDEX IF NOT EXISTS arrangements_user_id_idx ON arrangements(user_id);
+
+ALTER TABLE arrangements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own arrangements"
+  ON arrangements
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Arrangements of public songs are readable by anyone
+CREATE POLICY "Anyone can read arrangements of public songs"
+  ON arrangements
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM songs
+      WHERE songs.id = arrangements.song_id
+      AND songs.visibility = 'public'
+    )
+  );
+
+CREATE TRIGGER update_arrangements_updated_at
+  BEFORE UPDATE ON arrangements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE arrangements;
+
+-- ============================================================================
+-- Spaces (shared group libraries, e.g. a band)
+-- Members see the songs shared into a space. Roles:
+--   owner  - manages the space, its members and invites
+--   editor - shares songs into the space and removes them
+--   viewer - reads shared songs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS spaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL DEFAULT 'group' CHECK (type IN ('group', 'public')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS space_members (
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  display_name TEXT NOT NULL DEFAULT 'User', -- Cached for member lists
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (space_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS space_members_user_id_idx ON space_members(user_id);
+
+-- Invite links. The token is signed (see space_invite_token) and set by a
+-- trigger. An invite with an email can only be accepted by that user, once.
+CREATE TABLE IF NOT EXISTS space_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  max_uses INTEGER CHECK (max_uses > 0), -- NULL for unlimited
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS space_invites_space_id_idx ON space_invites(space_id);
+
+-- Key for signing invite tokens. RLS without policies keeps it away from
+-- clients; only the SECURITY DEFINER functions below read it. Uses pgcrypto,
+-- which Supabase enables in the extensions schema.
+CREATE TABLE IF NOT EXISTS invite_signing_keys (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+INSERT INTO invite_signing_keys DEFAULT VALUES ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS space_songs (
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  song_id UUID NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  added_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (space_id, song_id)
+);
+
+CREATE INDEX IF NOT EXISTS space_songs_song_id_idx ON space_songs(song_id);
+
+-- Membership checks used by the policies below. SECURITY DEFINER so the
+-- space_members policies don't recurse into themselves.
+CREATE OR REPLACE FUNCTION space_role(target_space UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM space_members
+  WHERE space_id = target_space AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_space_member(target_space UUID)
+RETURNS BOOLEAN AS $$
+  SELECT space_role(target_space) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE spaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_songs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invite_signing_keys ENABLE ROW LEVEL SECURITY;
+
+-- Spaces
+CREATE POLICY "Members can read their spaces"
+  ON spaces
+  FOR SELECT
+  USING (owner_id = auth.uid() OR is_space_member(id));
+
+CREATE POLICY "Users can create spaces they own"
+  ON spaces
+  FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update their spaces"
+  ON spaces
+  FOR UPDATE
+  USING (space_role(id) = 'owner')
+  WITH CHECK (space_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their spaces"
+  ON spaces
+  FOR DELETE
+  USING (space_role(id) = 'owner');
+
+-- Members
+CREATE POLICY "Members can see each other"
+  ON space_members
+  FOR SELECT
+  USING (is_space_member(space_id));
+
+CREATE POLICY "Owners can manage members"
+  ON space_members
+  FOR ALL
+  USING (space_role(space_id) = 'owner')
+  WITH CHECK (space_role(space_id) = 'owner');
+
+CREATE POLICY "Members can leave spaces"
+  ON space_members
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Invites (accepted through accept_space_invite)
+CREATE POLICY "Owners can manage invites"
+  ON space_invites
+  FOR ALL
+  USING (space_role(space_id) = 'owner')
+  WITH CHECK (space_role(space_id) = 'owner' AND created_by = auth.uid());
+
+-- Shared songs
+CREATE POLICY "Members can see shared songs"
+  ON space_songs
+  FOR SELECT
+  USING (is_space_member(space_id));
+
+CREATE POLICY "Editors can share their own songs"
+  ON space_songs
+  FOR INSERT
+  WITH CHECK (
+    space_role(space_id) IN ('owner', 'editor')
+    AND added_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM songs WHERE songs.id = song_id AND songs.user_id = auth.uid())
+  );
+
+CREATE POLICY "Editors can remove shared songs"
+  ON space_songs
+  FOR DELETE
+  USING (space_role(space_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Space members can read shared songs"
+  ON songs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_songs
+      WHERE space_songs.song_id = songs.id
+      AND is_space_member(space_songs.space_id)
+    )
+  );
+
+CREATE POLICY "Space members can read arrangements of shared songs"
+  ON arrangements
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_songs
+      WHERE space_songs.song_id = arrangements.song_id
+      AND is_space_member(space_songs.space_id)
+    )
+  );
+
+-- The creator of a space becomes its owner member
+CREATE OR REPLACE FUNCTION add_space_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO space_members (space_id, user_id, role, display_name)
+  VALUES (
+    NEW.id,
+    NEW.owner_id,
+    'owner',
+    COALESCE((SELECT display_name FROM profiles WHERE id = NEW.owner_id), 'User')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_space_created
+  AFTER INSERT ON spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION add_space_owner();
+
+-- Invite tokens are "<payload>.<signature>", both base64url. The payload
+-- is JSON with the invite ID, space, role and expiry (Unix seconds); the
+-- signature is its HMAC-SHA256 under invite_signing_keys.
+CREATE OR REPLACE FUNCTION base64url(data BYTEA)
+RETURNS TEXT AS $$
+  SELECT translate(encode(data, 'base64'), E'+/=\n', '-_');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION space_invite_signature(payload TEXT)
+RETURNS TEXT AS $$
+  SELECT base64url(extensions.hmac(convert_to(payload, 'UTF8'), secret, 'sha256'))
+  FROM invite_signing_keys;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION space_invite_token(invite space_invites)
+RETURNS TEXT AS $$
+DECLARE
+  payload TEXT;
+BEGIN
+  payload := base64url(convert_to(json_build_object(
+    'i', invite.id,
+    's', invite.space_id,
+    'r', invite.role,
+    'e', floor(extract(epoch FROM invite.expires_at))
+  )::text, 'UTF8'));
+  RETURN payload || '.' || space_invite_signature(payload);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Clients must not be able to sign their own tokens
+REVOKE EXECUTE ON FUNCTION space_invite_signature(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION space_invite_token(space_invites) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sign_space_invite()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.token := space_invite_token(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_space_invite_written
+  BEFORE INSERT OR UPDATE ON space_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION sign_space_invite();
+
+-- Check a token's signature, then that its invite still exists, hasn't
+-- expired and has uses left. Raises with a message for the invitee.
+CREATE OR REPLACE FUNCTION find_space_invite(invite_token TEXT, for_update BOOLEAN DEFAULT FALSE)
+RETURNS space_invites AS $$
+DECLARE
+  payload TEXT := split_part(invite_token, '.', 1);
+  invite space_invites%ROWTYPE;
+BEGIN
+  IF payload = '' OR split_part(invite_token, '.', 2) <> space_invite_signature(payload) THEN
+    RAISE EXCEPTION 'This invite link is invalid';
+  END IF;
+
+  IF for_update THEN
+    SELECT * INTO invite FROM space_invites WHERE token = invite_token FOR UPDATE;
+  ELSE
+    SELECT * INTO invite FROM space_invites WHERE token = invite_token;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite has been revoked';
+  END IF;
+  IF invite.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+  IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  RETURN invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_space_invite(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Look up an invite before accepting it (invitees can't read the space yet)
+CREATE OR REPLACE FUNCTION get_space_invite(invite_token TEXT)
+RETURNS TABLE (space_id UUID, space_name TEXT, role TEXT, email TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  invite space_invites%ROWTYPE;
+BEGIN
+  invite := find_space_invite(invite_token);
+  RETURN QUERY
+    SELECT invite.space_id, spaces.name, invite.role, invite.email, invite.expires_at
+    FROM spaces
+    WHERE spaces.id = invite.space_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a space with an invite token. Returns the space ID.
+CREATE OR REPLACE FUNCTION accept_space_invite(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite space_invites%ROWTYPE;
+  joined INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  invite := find_space_invite(invite_token, TRUE);
+
+  IF invite.email IS NOT NULL AND lower(invite.email) <> lower(auth.email()) THEN
+    RAISE EXCEPTION 'This invite is for a different email address';
+  END IF;
+
+  -- Existing members keep their role, and don't use up the invite
+  INSERT INTO space_members (space_id, user_id, role, display_name)
+  VALUES (
+    invite.space_id,
+    auth.uid(),
+    invite.role,
+    COALESCE((SELECT display_name FROM profiles WHERE id = auth.uid()), 'User')
+  )
+  ON CONFLICT (space_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS joined = ROW_COUNT;
+  IF joined > 0 THEN
+    UPDATE space_invites SET use_count = use_count + 1 WHERE id = invite.id;
+  END IF;
+
+  RETURN invite.space_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_spaces_updated_at
+  BEFORE UPDATE ON spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE space_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE space_songs;
+
+-- ============================================================================
+-- Space Activity
+-- The activity feed travels in each space's Yjs document, which any member
+-- can write. Members record who wrote each entry here, and only as
+-- themselves; readers show only entries with a matching row.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS space_activity (
+  id UUID PRIMARY KEY,
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS space_activity_space_id_idx ON space_activity(space_id);
+
+ALTER TABLE space_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see their spaces' activity"
+  ON space_activity
+  FOR SELECT
+  USING (is_space_member(space_id));
+
+CREATE POLICY "Members can record their own activity"
+  ON space_activity
+  FOR INSERT
+  WITH CHECK (actor_id = auth.uid() AND is_space_member(space_id));
+
 -- ============================================================================
 -- Avatar Storage Bucket
 -- Run these in Supabase Dashboard > Storage > New Bucket
@@ -307,3 +716,115 @@ ALTER PUBLICATION supabase_realtime ADD TABLE system_chords;
 --    FOR SELECT
 --    TO public
 --    USING (bucket_id = 'avatars');
+
+-- ============================================================================
+-- Yjs State Storage Bucket
+-- Run these in Supabase Dashboard > Storage > New Bucket
+-- ============================================================================
+--
+-- Library documents (songs, collections and deletion tombstones) are stored
+-- as <user id>/library.yjs by SupabaseProvider. Space documents (the activity
+-- feed) are stored as spaces/<space id>/space.yjs.
+--
+-- 1. Create bucket named 'yjs-states' (private)
+-- 2. Add policies so users can only read and write their own folder:
+--
+--    CREATE POLICY "Users can read their own Yjs state"
+--    ON storage.objects
+--    FOR SELECT
+--    TO authenticated
+--    USING (bucket_id = 'yjs-states' AND (storage.foldername(name))[1] = auth.uid()::text);
+--
+--    CREATE POLICY "Users can upload their own Yjs state"
+--    ON storage.objects
+--    FOR INSERT
+--    TO authenticated
+--    WITH CHECK (bucket_id = 'yjs-states' AND (storage.foldername(name))[1] = auth.uid()::text);
+--
+--    CREATE POLICY "Users can update their own Yjs state"
+--    ON storage.objects
+--    FOR UPDATE
+--    TO authenticated
+--    USING (bucket_id = 'yjs-states' AND (storage.foldername(name))[1] = auth.uid()::text);
+--
+-- 3. Add policies so space members can read and write their space's folder:
+--
+--    CREATE POLICY "Members can read their spaces' Yjs state"
+--    ON storage.objects
+--    FOR SELECT
+--    TO authenticated
+--    USING (
+--      bucket_id = 'yjs-states'
+--      AND (storage.foldername(name))[1] = 'spaces'
+--      AND is_space_member(((storage.foldername(name))[2])::uuid)
+--    );
+--
+--    CREATE POLICY "Members can upload their spaces' Yjs state"
+--    ON storage.objects
+--    FOR INSERT
+--    TO authenticated
+--    WITH CHECK (
+--      bucket_id = 'yjs-states'
+--      AND (storage.foldername(name))[1] = 'spaces'
+--      AND is_space_member(((storage.foldername(name))[2])::uuid)
+--    );
+--
+--    CREATE POLICY "Members can update their spaces' Yjs state"
+--    ON storage.objects
+--    FOR UPDATE
+--    TO authenticated
+--    USING (
+--      bucket_id = 'yjs-states'
+--      AND (storage.foldername(name))[1] = 'spaces'
+--      AND is_space_member(((storage.foldername(name))[2])::uuid)
+--    );
+
+-- ============================================================================
+-- Yjs Realtime Channels
+-- SupabaseProvider sends document updates on the private broadcast channel
+-- yjs:<room>. Also turn off "Allow public access" in Realtime settings, so
+-- clients can't use the same topics as public channels.
+-- ============================================================================
+
+CREATE POLICY "Users can receive their library's updates"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'yjs:' || auth.uid()::text || '/library'
+  );
+
+CREATE POLICY "Users can send their library's updates"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'yjs:' || auth.uid()::text || '/library'
+  );
+
+-- Space of a space document's channel (yjs:spaces/<space id>/space), or
+-- NULL for other topics
+CREATE OR REPLACE FUNCTION space_channel_space(topic TEXT)
+RETURNS UUID AS $$
+  SELECT (regexp_match(topic, '^yjs:spaces/([0-9a-f-]{36})/space$'))[1]::uuid;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE POLICY "Members can receive their spaces' updates"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND is_space_member(space_channel_space(realtime.topic()))
+  );
+
+CREATE POLICY "Members can send their spaces' updates"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND is_space_member(space_channel_space(realtime.topic()))
+  );
@@ -68,6 +68,7 @@ export interface UserPreferences {
   chordListPosition?: 'top' | 'right' | 'bottom' | 'inline'; // Position of chord diagrams in renderer
   theme?: 'light' | 'dark' | 'auto'; // Color theme preference
   compactView?: boolean; // Use compact UI layout
+  chordNotation?: 'letter' | 'nashville' | 'roman'; // How chords are shown in the viewer
 }
 
 // ============================================================================
@@ -124,6 +125,7 @@ export interface Arrangement {
   content: string; // ChordPro format
   version: number;
   baseVersionHash?: string; // For conflict detection
+  baseContent?: string; // Content as last synced; the base for three-way merges
   createdAt: Date;
   updatedAt: Date;
 }
@@ -159,9 +161,53 @@ export interface Membership {
   userId: string;
   spaceId: string;
   role: MemberRole;
+  /** Cached display name, for members other than the local user */
+  displayName?: string;
   joinedAt: Date;
 }
 
+export type SpaceActivityType =
+  | 'song_added'
+  | 'song_removed'
+  | 'arrangement_edited'
+  | 'member_joined'
+  | 'member_left'
+  | 'member_removed'
+  | 'role_changed'
+  | 'setlist_reordered';
+
+/**
+ * An entry in a space's activity feed. Users are identified by their
+ * Supabase user ID, with names cached as they were at the time.
+ */
+export interface SpaceActivity {
+  id: string;
+  spaceId: string;
+  type: SpaceActivityType;
+  actorId: string;
+  actorName: string;
+  songId?: string;
+  songTitle?: string;
+  arrangementId?: string;
+  /** Snapshot of the version an arrangement edit replaced, on the editor's device */
+  snapshotId?: string;
+  /** Content an arrangement edit replaced, and what it became, for the diff */
+  previousContent?: string;
+  content?: string;
+  memberId?: string;
+  memberName?: string;
+  role?: MemberRole;
+  setId?: string;
+  setName?: string;
+  createdAt: Date;
+}
+
+/** What an activity entry is about, besides who did what and when */
+export type SpaceActivityDetails = Omit<
+  SpaceActivity,
+  'id' | 'spaceId' | 'type' | 'actorId' | 'actorName' | 'createdAt'
+>;
+
 // ============================================================================
 // Session Domain (Ad-hoc P2P)
 // ============================================================================
@@ -175,6 +221,28 @@ export interface Session {
   selectedSongIds?: string[];
   createdAt: Date;
   expiresAt?: Date;
+  /** Session history: when this device left the session */
+  endedAt?: Date;
+  hostName?: string;
+  /** Session history: songs played, in order */
+  playedSongs?: SessionPlayedSong[];
+  /** Set once the played songs have been counted in SongMetadata.playCount */
+  playCountsRecorded?: boolean;
+  /** Setlist made from the played songs */
+  setlistId?: string;
+}
+
+/**
+ * A song played in a session, as put on everyone's screen by the leader
+ */
+export interface SessionPlayedSong {
+  songId: string;
+  title: string;
+  artist?: string;
+  arrangementId?: string;
+  playedAt: Date;
+  /** Transpositions (semitones) used while the song was playing, in order */
+  transpositions: number[];
 }
 
 export interface WebRTCConnectionInfo {
@@ -204,6 +272,24 @@ export interface SessionParticipant {
   displayName: string;
   joinedAt: Date;
   syncStatus: 'syncing' | 'synced' | 'error';
+  instruments?: Instrument[];
+  role?: SessionRole;
+}
+
+/**
+ * Song content a joiner received during a session, kept locally so charts
+ * stay readable if the connection to the host drops.
+ */
+export interface SessionContentCacheEntry {
+  sessionId: string;
+  /** songId, or songId:arrangementId for an arrangement's content */
+  key: string;
+  songId: string;
+  arrangementId?: string;
+  content: string;
+  /** The song's manifest entry, for its title, artist and key */
+  entry: SongManifestEntry;
+  cachedAt: Date;
 }
 
 // ============================================================================
@@ -225,15 +311,21 @@ export interface ConflictInfo {
   arrangementId: string;
   localContent: string;
   remoteContent: string;
+  /** Common ancestor of both versions, when known */
+  baseContent?: string;
+  /** Result of resolving with a merge */
+  mergedContent?: string;
   localUpdatedAt: Date;
   remoteUpdatedAt: Date;
   remoteUserId: string;
   remoteUserName?: string;
   detectedAt: Date;
   resolved: boolean;
-  resolution?: 'keep-local' | 'keep-remote' | 'keep-both';
+  resolution?: ConflictResolution;
 }
 
+export type ConflictResolution = 'keep-local' | 'keep-remote' | 'keep-both' | 'merged';
+
 // ============================================================================
 // QR Code Domain
 // ============================================================================
@@ -249,6 +341,13 @@ export interface QRSessionPayload {
   expiresAt?: number;
 }
 
+export interface SongManifestArrangement {
+  id: string;
+  instrument: Instrument;
+  tuning?: string;
+  capo?: number;
+}
+
 export interface SongManifestEntry {
   id: string;
   title: string;
@@ -262,6 +361,10 @@ export interface SongManifestEntry {
   tempo?: number;
   /** Optional tags for session sharing */
   tags?: string[];
+  /** Arrangements available from the host; content is requested per arrangement */
+  arrangements?: SongManifestArrangement[];
+  /** Host doesn't allow saving this song to joiners' libraries */
+  viewOnly?: boolean;
 }
 
 // ============================================================================
@@ -288,15 +391,25 @@ export interface BootstrapSessionPayload extends QRSessionPayload {
 // Session Awareness Domain
 // ============================================================================
 
+/**
+ * Role of a participant in a session. The host grants co-host (drives
+ * transposition and song changes) and editor (chart fixes propagate);
+ * everyone else follows.
+ */
+export type SessionRole = 'host' | 'co-host' | 'editor' | 'follower';
+
 /**
  * Participant info shared via Yjs awareness for real-time presence.
  * Kept small for efficient P2P transfer.
  */
 export interface AwarenessParticipant {
+  userId: string;
   displayName: string;
   avatarThumbnail?: string; // Base64 encoded small thumbnail (< 5KB)
   instruments: Instrument[];
   isHost: boolean;
+  /** Role this participant announces; receivers check it against the host's grants */
+  role: SessionRole;
   joinedAt: number; // timestamp
 }
 
@@ -305,10 +418,75 @@ export interface AwarenessParticipant {
  */
 export interface SessionParticipantInfo {
   clientId: number;
+  userId: string;
   displayName: string;
   avatarThumbnail?: string;
   instruments: Instrument[];
   isHost: boolean;
+  /** Role granted by the host */
+  role: SessionRole;
+}
+
+/**
+ * The song the session leader is playing, which followers' devices
+ * navigate to. Set by the host or a co-host.
+ */
+export interface SessionNowPlaying {
+  songId: string;
+  arrangementId?: string;
+  /** Section label being played, e.g. "Chorus" */
+  section?: string;
+  /** Song queued after this one */
+  nextSongId?: string;
+  /** User who set it */
+  setBy: string;
+  updatedAt: number; // timestamp
+}
+
+/**
+ * A song in the session's setlist queue. Items have their own ID so the
+ * same song can be queued twice.
+ */
+export interface SessionQueueItem {
+  id: string;
+  songId: string;
+  skipped: boolean;
+}
+
+/**
+ * Ordered song queue for a session, usually started from a setlist.
+ * Managed by the host and co-hosts.
+ */
+export interface SessionQueue {
+  /** Setlist the queue was created from */
+  setlistId?: string;
+  name: string;
+  items: SessionQueueItem[];
+  /** Index of the item being played; -1 before the first song */
+  currentIndex: number;
+  /** User who started it */
+  setBy: string;
+  createdAt: number; // timestamp
+}
+
+export type SessionMessageType = 'text' | 'song-request' | 'reaction';
+
+/**
+ * A chat message, song request or emoji reaction in a session.
+ * Ephemeral like the rest of the session doc.
+ */
+export interface SessionMessage {
+  id: string;
+  type: SessionMessageType;
+  userId: string;
+  displayName: string;
+  /** Message text, or the emoji of a reaction */
+  text?: string;
+  /** Requested song, from the session manifest */
+  songId?: string;
+  /** Message a reaction is for; reactions without one are to the room */
+  targetId?: string;
+  createdAt: number; // timestamp
 }
 
 // ============================================================================
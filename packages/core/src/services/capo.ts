@@ -0,0 +1,268 @@
+/**
+ * Capo Service
+ *
+ * With a capo on fret N, the player fingers "shapes" N semitones below
+ * the sounding (concert) chords. This module converts between the two
+ * views and suggests a capo fret that turns a song's chords into the
+ * easiest open shapes for an instrument.
+ */
+
+import type { Arrangement } from '../models/index.js';
+import {
+  parseChordPro,
+  getChordOccurrences,
+  getDirectiveValue,
+  isAnnotation,
+  type ChordProDocument,
+} from './chordpro.js';
+import {
+  parseChord,
+  getNoteIndex,
+  transposeChord,
+  transposeChordProContent,
+  transposeKey,
+  type TransposeSpelling,
+} from './index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Instrument families that share a set of open chord shapes */
+export type ShapeFamily = 'guitar' | 'ukulele' | 'mandolin' | 'banjo';
+
+export interface CapoSuggestion {
+  capo: number;
+  /** Lower is easier */
+  score: number;
+  /** Key the shapes are played in, when the song key is known */
+  shapeKey?: string;
+  /** Distinct chords that become open shapes */
+  openChords: number;
+  /** Distinct chords in the song */
+  totalChords: number;
+  /** Sounding chord → shape to play */
+  shapes: Record<string, string>;
+}
+
+export interface CapoSuggestionOptions {
+  /** Highest fret to consider (default 7) */
+  maxCapo?: number;
+  /** Song key, used to name the shapes; read from {key:} if omitted */
+  key?: string;
+}
+
+// ============================================================================
+// Open Shapes
+// ============================================================================
+
+/**
+ * Chord shapes by difficulty for each family.
+ * open: first-position shapes beginners learn first
+ * easy: common shapes with a small barre or stretch
+ * Anything else is treated as a full barre / hard shape.
+ */
+export const OPEN_CHORD_SHAPES: Record<ShapeFamily, { open: readonly string[]; easy: readonly string[] }> = {
+  guitar: {
+    open: [
+      'C', 'D', 'E', 'G', 'A', 'Am', 'Dm', 'Em',
+      'A7', 'B7', 'C7', 'D7', 'E7', 'G7', 'Am7', 'Dm7', 'Em7',
+      'Cmaj7', 'Dmaj7', 'Fmaj7', 'Amaj7', 'Asus2', 'Asus4', 'Dsus2', 'Dsus4', 'Esus4', 'Cadd9',
+    ],
+    easy: ['F', 'Bm', 'Bm7', 'F#m', 'Gmaj7', 'E9'],
+  },
+  ukulele: {
+    open: [
+      'C', 'F', 'G', 'A', 'Am', 'Dm', 'Gm',
+      'A7', 'C7', 'D7', 'E7', 'G7', 'Am7', 'Dm7', 'Cmaj7', 'Fmaj7', 'Gmaj7', 'Csus4', 'Asus4',
+    ],
+    easy: ['D', 'Em', 'Em7', 'Bb', 'Bm', 'B7'],
+  },
+  mandolin: {
+    open: ['G', 'C', 'D', 'A', 'Am', 'Em', 'G7', 'D7', 'A7', 'E7'],
+    easy: ['E', 'Bm', 'F', 'Dm', 'Gm'],
+  },
+  banjo: {
+    open: ['G', 'C', 'D', 'D7', 'Em', 'G7'],
+    easy: ['A', 'E', 'F', 'Am', 'C7'],
+  },
+};
+
+/**
+ * Map a renderer instrument ID (e.g. "baritone-ukulele") to a shape family.
+ * Returns null for instruments without chord shapes (bass, drums, keys, vocals).
+ */
+export function getShapeFamily(instrumentId: string): ShapeFamily | null {
+  const id = instrumentId.toLowerCase();
+  // Baritone uke is tuned like the top four guitar strings
+  if (id.startsWith('baritone')) return 'guitar';
+  // Fifths tuning plays like a mandolin
+  if (id.includes('5ths') || id.includes('fifths')) return 'mandolin';
+  if (id.startsWith('guitar')) return 'guitar';
+  if (id.startsWith('ukulele') || id.startsWith('uke')) return 'ukulele';
+  if (id.startsWith('mandolin')) return 'mandolin';
+  if (id.startsWith('banjo')) return 'banjo';
+  return null;
+}
+
+const QUALITY_ALIASES: Record<string, string> = {
+  maj: '',
+  M: '',
+  min: 'm',
+  '-': 'm',
+  M7: 'maj7',
+  min7: 'm7',
+  '-7': 'm7',
+  sus: 'sus4',
+};
+
+/** Identify a chord by pitch class and quality so C# and Db match */
+function shapeId(chord: string): string | null {
+  const parsed = parseChord(chord);
+  if (!parsed) return null;
+  const quality = QUALITY_ALIASES[parsed.quality] ?? parsed.quality;
+  return `${getNoteIndex(parsed.root)}:${quality}`;
+}
+
+type ShapeIndex = Record<ShapeFamily, { open: Set<string | null>; easy: Set<string | null> }>;
+
+// Built on first use: index.js imports this module, so its helpers
+// aren't initialised yet while this module loads
+let shapeIndex: ShapeIndex | null = null;
+
+function getShapeIndex(): ShapeIndex {
+  shapeIndex ??= Object.fromEntries(
+    Object.entries(OPEN_CHORD_SHAPES).map(([family, shapes]) => [
+      family,
+      {
+        open: new Set(shapes.open.map(shapeId)),
+        easy: new Set(shapes.easy.map(shapeId)),
+      },
+    ])
+  ) as ShapeIndex;
+  return shapeIndex;
+}
+
+/**
+ * Difficulty of a chord shape: 0 open, 1 easy, 3 barre/hard.
+ * Slash chords count as their upper shape plus a small penalty.
+ */
+export function getShapeDifficulty(chord: string, family: ShapeFamily): number {
+  const id = shapeId(chord);
+  if (!id) return 3;
+
+  const shapes = getShapeIndex()[family];
+  const slashPenalty = chord.includes('/') ? 0.5 : 0;
+  if (shapes.open.has(id)) return slashPenalty;
+  if (shapes.easy.has(id)) return 1 + slashPenalty;
+  return 3;
+}
+
+// ============================================================================
+// Shapes View
+// ============================================================================
+
+/**
+ * Get the shape to play for a sounding chord with a capo.
+ * @param chord - Sounding chord (e.g., "Bb")
+ * @param capo - Capo fret
+ * @param spelling - Prefer flats, or the key the shapes are in
+ */
+export function getCapoShape(chord: string, capo: number, spelling: TransposeSpelling = false): string {
+  if (capo === 0 || isAnnotation(chord)) return chord;
+  return transposeChord(chord, -capo, spelling);
+}
+
+/**
+ * Get the sounding chord for a shape played with a capo.
+ */
+export function getSoundingChord(shape: string, capo: number, spelling: TransposeSpelling = false): string {
+  if (capo === 0 || isAnnotation(shape)) return shape;
+  return transposeChord(shape, capo, spelling);
+}
+
+/**
+ * Convert ChordPro content from sounding chords to capo shapes.
+ * {key:} directives are rewritten to the key of the shapes.
+ */
+export function getCapoShapesContent(
+  content: string,
+  capo: number,
+  spelling: TransposeSpelling = false
+): string {
+  if (capo === 0) return content;
+  return transposeChordProContent(content, -capo, spelling);
+}
+
+/**
+ * Get the capo fret for an arrangement: the stored value, or the
+ * {capo:} directive in its content.
+ */
+export function getArrangementCapo(arrangement: Pick<Arrangement, 'capo' | 'content'>): number {
+  if (arrangement.capo !== undefined) return arrangement.capo;
+
+  const value = getDirectiveValue(parseChordPro(arrangement.content), 'capo');
+  const capo = value ? parseInt(value, 10) : 0;
+  return Number.isFinite(capo) && capo > 0 ? capo : 0;
+}
+
+// ============================================================================
+// Capo Suggestions
+// ============================================================================
+
+/**
+ * Rank capo positions by how easy the resulting shapes are to play.
+ * Chords are weighted by how often they occur. Higher frets get a small
+ * penalty, so ties go to the lower capo.
+ *
+ * @param content - Sounding ChordPro content (or a parsed document)
+ * @param instrumentId - Renderer instrument ID (e.g., "ukulele")
+ * @returns Suggestions sorted best first; empty if the instrument has no shapes
+ */
+export function suggestCapo(
+  content: string | ChordProDocument,
+  instrumentId: string,
+  options: CapoSuggestionOptions = {}
+): CapoSuggestion[] {
+  const family = getShapeFamily(instrumentId);
+  if (!family) return [];
+
+  const doc = typeof content === 'string' ? parseChordPro(content) : content;
+  const key = options.key ?? getDirectiveValue(doc, 'key');
+  const maxCapo = options.maxCapo ?? 7;
+
+  const counts = new Map<string, number>();
+  for (const { chord } of getChordOccurrences(doc)) {
+    if (isAnnotation(chord) || !parseChord(chord)) continue;
+    counts.set(chord, (counts.get(chord) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+
+  const suggestions: CapoSuggestion[] = [];
+
+  for (let capo = 0; capo <= maxCapo; capo++) {
+    const shapeKey = key ? transposeKey(key, -capo) : undefined;
+    const shapes: Record<string, string> = {};
+    let score = capo * 0.25;
+    let openChords = 0;
+
+    for (const [chord, count] of counts) {
+      const shape = getCapoShape(chord, capo, shapeKey ?? false);
+      const difficulty = getShapeDifficulty(shape, family);
+      shapes[chord] = shape;
+      score += difficulty * count;
+      if (difficulty < 1) openChords++;
+    }
+
+    suggestions.push({
+      capo,
+      score,
+      shapeKey,
+      openChords,
+      totalChords: counts.size,
+      shapes,
+    });
+  }
+
+  return suggestions.sort((a, b) => a.score - b.score || a.capo - b.capo);
+}
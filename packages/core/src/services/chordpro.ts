@@ -0,0 +1,628 @@
+/**
+ * ChordPro document model
+ *
+ * Parses ChordPro content into a typed, line-preserving AST and serializes
+ * it back. Every source line maps to exactly one line node, so
+ * serializeChordPro(parseChordPro(content)) === content for any input
+ * with consistent line endings.
+ *
+ * Structure:
+ * - Top-level nodes are lines or sections
+ * - Sections wrap {start_of_*} ... {end_of_*} blocks
+ * - Lyrics lines are split into chord/lyric pairs
+ * - Tab, grid and other verbatim blocks keep their lines untouched
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChordProDirective {
+  type: 'directive';
+  /** Directive name as written (e.g. "t", "soc") */
+  name: string;
+  /** Long form of the name (e.g. "title", "start_of_chorus") */
+  canonicalName: string;
+  value?: string;
+  /** Source text before the name, e.g. "{" or "  { " */
+  before: string;
+  /** Source text between name and value, e.g. ": " */
+  separator: string;
+  /** Source text after the value, e.g. "}" */
+  after: string;
+}
+
+/**
+ * A chord and the lyrics that follow it up to the next chord.
+ * The first pair of a line may have no chord.
+ */
+export interface ChordLyricPair {
+  /** Raw text inside the brackets, e.g. "Am7/G" or "*Riff" */
+  chord?: string;
+  lyrics: string;
+}
+
+export interface ChordProLyricsLine {
+  type: 'lyrics';
+  pairs: ChordLyricPair[];
+}
+
+/** A "#" comment line (not rendered) */
+export interface ChordProCommentLine {
+  type: 'comment';
+  text: string;
+}
+
+export interface ChordProEmptyLine {
+  type: 'empty';
+  text: string;
+}
+
+/** A line inside {start_of_tab} */
+export interface ChordProTabLine {
+  type: 'tab';
+  text: string;
+}
+
+/** A line inside {start_of_grid}, e.g. "| Am . . . | C . . . |" */
+export interface ChordProGridLine {
+  type: 'grid';
+  text: string;
+}
+
+/** A line inside another verbatim block (abc, ly, svg, textblock) */
+export interface ChordProVerbatimLine {
+  type: 'verbatim';
+  text: string;
+}
+
+export type ChordProLine =
+  | ChordProDirective
+  | ChordProLyricsLine
+  | ChordProCommentLine
+  | ChordProEmptyLine
+  | ChordProTabLine
+  | ChordProGridLine
+  | ChordProVerbatimLine;
+
+export interface ChordProSection {
+  type: 'section';
+  /** Section kind taken from the start directive (e.g. "chorus", "verse", "tab") */
+  kind: string;
+  /** Optional label, e.g. "Verse 2" from {start_of_verse: Verse 2} */
+  label?: string;
+  start: ChordProDirective;
+  /** Missing when the section runs to the end of the document */
+  end?: ChordProDirective;
+  lines: ChordProLine[];
+}
+
+export type ChordProNode = ChordProLine | ChordProSection;
+
+export interface ChordProDocument {
+  nodes: ChordProNode[];
+  lineEnding: '\n' | '\r\n';
+}
+
+export interface ChordProMetadata {
+  title?: string;
+  subtitle?: string;
+  artist?: string;
+  composer?: string;
+  album?: string;
+  year?: string;
+  key?: string;
+  tempo?: number;
+  time?: string;
+  capo?: number;
+  duration?: string;
+}
+
+// ============================================================================
+// Directive Names
+// ============================================================================
+
+/**
+ * Short directive forms mapped to their long names.
+ */
+export const CHORDPRO_DIRECTIVE_ALIASES: Record<string, string> = {
+  t: 'title',
+  st: 'subtitle',
+  c: 'comment',
+  ci: 'comment_italic',
+  cb: 'comment_box',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+  sog: 'start_of_grid',
+  eog: 'end_of_grid',
+  ns: 'new_song',
+  np: 'new_page',
+  npp: 'new_physical_page',
+  col: 'columns',
+  colb: 'column_break',
+  g: 'grid',
+  ng: 'no_grid',
+  tf: 'textfont',
+  ts: 'textsize',
+  tc: 'textcolour',
+  cf: 'chordfont',
+  cs: 'chordsize',
+  cc: 'chordcolour',
+};
+
+/**
+ * Long directive names from the ChordPro spec, plus the instrument
+ * directive Gigwidget uses to pick a renderer instrument.
+ * Section directives (start_of_* / end_of_*) are matched by prefix.
+ */
+export const KNOWN_CHORDPRO_DIRECTIVES: readonly string[] = [
+  // Meta-data
+  'title', 'subtitle', 'artist', 'composer', 'lyricist', 'arranger',
+  'copyright', 'album', 'year', 'key', 'time', 'tempo', 'duration',
+  'capo', 'meta', 'sorttitle', 'tuning', 'instrument',
+  // Formatting
+  'comment', 'comment_italic', 'comment_box', 'highlight', 'image',
+  // Chord definitions
+  'define', 'chord', 'transpose',
+  // Output
+  'new_song', 'new_page', 'new_physical_page', 'column_break', 'columns',
+  'grid', 'no_grid', 'titles', 'pagetype', 'diagrams',
+  // Fonts
+  'textfont', 'textsize', 'textcolour', 'chordfont', 'chordsize',
+  'chordcolour', 'tabfont', 'tabsize', 'tabcolour', 'titlefont',
+  'titlesize', 'titlecolour', 'footerfont', 'footersize', 'footercolour',
+  'tocfont', 'tocsize', 'toccolour',
+];
+
+/** Sections whose content is kept verbatim rather than parsed as lyrics */
+const VERBATIM_SECTIONS: Record<string, ChordProLine['type']> = {
+  tab: 'tab',
+  grid: 'grid',
+  abc: 'verbatim',
+  ly: 'verbatim',
+  svg: 'verbatim',
+  textblock: 'verbatim',
+};
+
+/**
+ * Get the long form of a directive name ("soc" → "start_of_chorus").
+ */
+export function canonicalDirectiveName(name: string): string {
+  const lower = name.toLowerCase();
+  return CHORDPRO_DIRECTIVE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Check if a directive name is part of the supported ChordPro vocabulary.
+ */
+export function isKnownDirective(name: string): boolean {
+  const canonical = canonicalDirectiveName(name);
+  if (canonical.startsWith('start_of_') || canonical.startsWith('end_of_')) {
+    return canonical.length > canonical.indexOf('_of_') + 4;
+  }
+  return KNOWN_CHORDPRO_DIRECTIVES.includes(canonical);
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DIRECTIVE_PATTERN = /^(\s*\{\s*)([A-Za-z][\w-]*)(?:(\s*:\s*|\s+)(.*?))?(\s*\}\s*)$/;
+const CHORD_PATTERN = /\[([^\]]*)\]/g;
+
+/**
+ * Parse a single line as a directive, or return null if it isn't one.
+ */
+export function parseDirective(line: string): ChordProDirective | null {
+  const match = line.match(DIRECTIVE_PATTERN);
+  if (!match) return null;
+
+  const [, before, name, separator, value, after] = match;
+  return {
+    type: 'directive',
+    name,
+    canonicalName: canonicalDirectiveName(name),
+    value: separator !== undefined ? value : undefined,
+    before,
+    separator: separator ?? '',
+    after,
+  };
+}
+
+/**
+ * Split a lyrics line into chord/lyric pairs.
+ * Unclosed brackets are kept as lyrics.
+ */
+export function parseLyricsLine(line: string): ChordProLyricsLine {
+  const pairs: ChordLyricPair[] = [];
+  let lastIndex = 0;
+  let current: ChordLyricPair = { lyrics: '' };
+
+  for (const match of line.matchAll(CHORD_PATTERN)) {
+    current.lyrics += line.slice(lastIndex, match.index);
+    if (current.chord !== undefined || current.lyrics !== '') {
+      pairs.push(current);
+    }
+    current = { chord: match[1], lyrics: '' };
+    lastIndex = match.index! + match[0].length;
+  }
+
+  current.lyrics += line.slice(lastIndex);
+  pairs.push(current);
+
+  return { type: 'lyrics', pairs };
+}
+
+function parseLine(line: string): ChordProLine {
+  if (line.trim() === '') {
+    return { type: 'empty', text: line };
+  }
+  if (line.startsWith('#')) {
+    return { type: 'comment', text: line };
+  }
+  return parseDirective(line) ?? parseLyricsLine(line);
+}
+
+function getSectionKind(directive: ChordProDirective, prefix: 'start_of_' | 'end_of_'): string | null {
+  if (!directive.canonicalName.startsWith(prefix)) return null;
+  const kind = directive.canonicalName.slice(prefix.length);
+  return kind || null;
+}
+
+/**
+ * Parse ChordPro content into a document.
+ */
+export function parseChordPro(content: string): ChordProDocument {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(lineEnding);
+  const nodes: ChordProNode[] = [];
+  let section: ChordProSection | null = null;
+
+  for (const text of lines) {
+    if (section) {
+      // Verbatim blocks only look for their closing directive
+      const verbatimType = VERBATIM_SECTIONS[section.kind];
+      const line = verbatimType ? parseDirective(text) : parseLine(text);
+
+      // Any end_of_* closes the open section; mismatches are left for the linter
+      if (line?.type === 'directive' && getSectionKind(line, 'end_of_')) {
+        section.end = line;
+        section = null;
+        continue;
+      }
+
+      section.lines.push(line && !verbatimType ? line : ({ type: verbatimType, text } as ChordProLine));
+      continue;
+    }
+
+    const line = parseLine(text);
+    const kind = line.type === 'directive' ? getSectionKind(line, 'start_of_') : null;
+    if (line.type === 'directive' && kind) {
+      section = {
+        type: 'section',
+        kind,
+        label: line.value?.trim() || undefined,
+        start: line,
+        lines: [],
+      };
+      nodes.push(section);
+      continue;
+    }
+
+    nodes.push(line);
+  }
+
+  return { nodes, lineEnding };
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+export function serializeDirective(directive: ChordProDirective): string {
+  const value = directive.value !== undefined
+    ? (directive.separator || ': ') + directive.value
+    : '';
+  return directive.before + directive.name + value + directive.after;
+}
+
+export function serializeLine(line: ChordProLine): string {
+  switch (line.type) {
+    case 'directive':
+      return serializeDirective(line);
+    case 'lyrics':
+      return line.pairs
+        .map((pair) => (pair.chord !== undefined ? `[${pair.chord}]` : '') + pair.lyrics)
+        .join('');
+    default:
+      return line.text;
+  }
+}
+
+/**
+ * Serialize a document back to ChordPro content.
+ */
+export function serializeChordPro(doc: ChordProDocument): string {
+  const lines: string[] = [];
+  forEachLine(doc, (line) => {
+    lines.push(serializeLine(line));
+  });
+  return lines.join(doc.lineEnding);
+}
+
+// ============================================================================
+// Traversal
+// ============================================================================
+
+/**
+ * Visit every source line in order, including section start/end directives.
+ * The index is the 0-based source line number.
+ */
+export function forEachLine(
+  doc: ChordProDocument,
+  visit: (line: ChordProLine, index: number, section?: ChordProSection) => void
+): void {
+  let index = 0;
+  for (const node of doc.nodes) {
+    if (node.type !== 'section') {
+      visit(node, index++);
+      continue;
+    }
+    visit(node.start, index++, node);
+    for (const line of node.lines) {
+      visit(line, index++, node);
+    }
+    if (node.end) {
+      visit(node.end, index++, node);
+    }
+  }
+}
+
+/**
+ * Get all directives with the given name (short or long form).
+ */
+export function findDirectives(doc: ChordProDocument, name: string): ChordProDirective[] {
+  const canonical = canonicalDirectiveName(name);
+  const found: ChordProDirective[] = [];
+  forEachLine(doc, (line) => {
+    if (line.type === 'directive' && line.canonicalName === canonical) {
+      found.push(line);
+    }
+  });
+  return found;
+}
+
+/**
+ * Get the trimmed value of the first directive with the given name.
+ */
+export function getDirectiveValue(doc: ChordProDocument, name: string): string | undefined {
+  for (const directive of findDirectives(doc, name)) {
+    const value = directive.value?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Read song metadata from the document's meta-data directives.
+ */
+export function getChordProMetadata(doc: ChordProDocument): ChordProMetadata {
+  const parseNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  return {
+    title: getDirectiveValue(doc, 'title'),
+    subtitle: getDirectiveValue(doc, 'subtitle'),
+    artist: getDirectiveValue(doc, 'artist'),
+    composer: getDirectiveValue(doc, 'composer'),
+    album: getDirectiveValue(doc, 'album'),
+    year: getDirectiveValue(doc, 'year'),
+    key: getDirectiveValue(doc, 'key'),
+    tempo: parseNumber(getDirectiveValue(doc, 'tempo')),
+    time: getDirectiveValue(doc, 'time'),
+    capo: parseNumber(getDirectiveValue(doc, 'capo')),
+    duration: getDirectiveValue(doc, 'duration'),
+  };
+}
+
+/**
+ * Display labels for the document's sections, in order. Unlabelled
+ * sections are named after their kind, numbered when the kind repeats
+ * (e.g. "Verse 1", "Chorus", "Verse 2").
+ */
+export function getSectionLabels(doc: ChordProDocument): string[] {
+  const sections = doc.nodes.filter((node): node is ChordProSection => node.type === 'section');
+  const kindCounts = new Map<string, number>();
+  for (const section of sections) {
+    kindCounts.set(section.kind, (kindCounts.get(section.kind) ?? 0) + 1);
+  }
+
+  const seen = new Map<string, number>();
+  return sections.map((section) => {
+    const n = (seen.get(section.kind) ?? 0) + 1;
+    seen.set(section.kind, n);
+    if (section.label) return section.label;
+
+    const name = section.kind.charAt(0).toUpperCase() + section.kind.slice(1);
+    return (kindCounts.get(section.kind) ?? 0) > 1 ? `${name} ${n}` : name;
+  });
+}
+
+// ============================================================================
+// Chords
+// ============================================================================
+
+/**
+ * A chord reference found in the document, with its source position.
+ */
+export interface ChordOccurrence {
+  chord: string;
+  /** 0-based source line */
+  line: number;
+  /** 0-based column of the chord name (after the "[" in lyrics lines) */
+  column: number;
+}
+
+/**
+ * Check if bracket content is an annotation like [*Riff] rather than a chord.
+ */
+export function isAnnotation(chord: string): boolean {
+  return chord.startsWith('*');
+}
+
+// Anything else in a grid is a bar line, repeat or beat placeholder
+const GRID_CHORD_PATTERN = /^[A-G]/;
+
+function findGridChords(text: string): Array<{ chord: string; column: number }> {
+  const chords: Array<{ chord: string; column: number }> = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    if (GRID_CHORD_PATTERN.test(match[0])) {
+      chords.push({ chord: match[0], column: match.index! });
+    }
+  }
+  return chords;
+}
+
+/**
+ * Get every chord in the document in source order.
+ * Includes chords in grids; skips annotations and empty brackets.
+ */
+export function getChordOccurrences(doc: ChordProDocument): ChordOccurrence[] {
+  const occurrences: ChordOccurrence[] = [];
+
+  forEachLine(doc, (line, index) => {
+    if (line.type === 'lyrics') {
+      let column = 0;
+      for (const pair of line.pairs) {
+        if (pair.chord !== undefined) {
+          const chord = pair.chord.trim();
+          if (chord && !isAnnotation(chord)) {
+            occurrences.push({ chord, line: index, column: column + 1 });
+          }
+          column += pair.chord.length + 2;
+        }
+        column += pair.lyrics.length;
+      }
+    } else if (line.type === 'grid') {
+      for (const { chord, column } of findGridChords(line.text)) {
+        occurrences.push({ chord, line: index, column });
+      }
+    }
+  });
+
+  return occurrences;
+}
+
+/**
+ * Get the unique chord names used in ChordPro content, in order of first use.
+ */
+export function extractChords(content: string | ChordProDocument): string[] {
+  const doc = typeof content === 'string' ? parseChordPro(content) : content;
+  const chords = new Set<string>();
+  for (const occurrence of getChordOccurrences(doc)) {
+    chords.add(occurrence.chord);
+  }
+  return Array.from(chords);
+}
+
+/**
+ * Context passed to chord mappers.
+ */
+export interface ChordMapContext {
+  /** Value of the most recent {key:} directive before the chord, if any */
+  key?: string;
+}
+
+/**
+ * Return a copy of the document with every chord passed through a mapper.
+ * Applies to lyrics chords and grid cells; annotations are left alone.
+ */
+export function mapChords(
+  doc: ChordProDocument,
+  mapper: (chord: string, context: ChordMapContext) => string
+): ChordProDocument {
+  const context: ChordMapContext = {};
+
+  const mapLine = (line: ChordProLine): ChordProLine => {
+    if (line.type === 'directive') {
+      if (line.canonicalName === 'key' && line.value?.trim()) {
+        context.key = line.value.trim();
+      }
+      return line;
+    }
+    if (line.type === 'lyrics') {
+      return {
+        ...line,
+        pairs: line.pairs.map((pair) =>
+          pair.chord !== undefined && pair.chord.trim() && !isAnnotation(pair.chord)
+            ? { ...pair, chord: mapper(pair.chord, { ...context }) }
+            : pair
+        ),
+      };
+    }
+    if (line.type === 'grid') {
+      let text = '';
+      let lastIndex = 0;
+      for (const { chord, column } of findGridChords(line.text)) {
+        text += line.text.slice(lastIndex, column) + mapper(chord, { ...context });
+        lastIndex = column + chord.length;
+      }
+      return { ...line, text: text + line.text.slice(lastIndex) };
+    }
+    return line;
+  };
+
+  return {
+    ...doc,
+    nodes: doc.nodes.map((node) =>
+      node.type === 'section'
+        ? { ...node, start: mapLine(node.start) as ChordProDirective, lines: node.lines.map(mapLine) }
+        : mapLine(node)
+    ),
+  };
+}
+
+/**
+ * Return a copy of the document with the values of every directive
+ * with the given name passed through a mapper.
+ */
+export function mapDirectiveValues(
+  doc: ChordProDocument,
+  name: string,
+  mapper: (value: string) => string
+): ChordProDocument {
+  const canonical = canonicalDirectiveName(name);
+
+  const mapLine = <T extends ChordProLine>(line: T): T => {
+    if (line.type !== 'directive' || line.canonicalName !== canonical || line.value === undefined) {
+      return line;
+    }
+    // Keep surrounding whitespace inside the value intact
+    const value = line.value.trim();
+    if (!value) return line;
+    return { ...line, value: line.value.replace(value, mapper(value)) };
+  };
+
+  return {
+    ...doc,
+    nodes: doc.nodes.map((node) =>
+      node.type === 'section'
+        ? {
+            ...node,
+            start: mapLine(node.start),
+            end: node.end && mapLine(node.end),
+            lines: node.lines.map(mapLine),
+          }
+        : mapLine(node)
+    ),
+  };
+}
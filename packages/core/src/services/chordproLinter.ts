@@ -0,0 +1,212 @@
+/**
+ * ChordPro Linter
+ *
+ * Validates arrangement content and reports problems with source ranges,
+ * so broken imports are caught in the editor instead of at the gig.
+ *
+ * Checks:
+ * - Unknown directives
+ * - Unbalanced {start_of_*} / {end_of_*} blocks
+ * - Chord names that parseChord can't read
+ * - Missing {title}
+ * - Duplicate metadata directives
+ */
+
+import {
+  parseChordPro,
+  forEachLine,
+  serializeDirective,
+  getChordOccurrences,
+  isKnownDirective,
+  type ChordProDocument,
+  type ChordProDirective,
+} from './chordpro.js';
+import { parseChord } from './index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChordProDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type ChordProDiagnosticCode =
+  | 'unknown-directive'
+  | 'unterminated-section'
+  | 'unmatched-section-end'
+  | 'mismatched-section-end'
+  | 'invalid-chord'
+  | 'missing-title'
+  | 'duplicate-metadata';
+
+/**
+ * Source range of a diagnostic.
+ * Lines and columns are 1-based; endColumn is exclusive.
+ */
+export interface ChordProRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface ChordProDiagnostic {
+  code: ChordProDiagnosticCode;
+  severity: ChordProDiagnosticSeverity;
+  message: string;
+  range: ChordProRange;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/** Metadata that should only be set once per song */
+const SINGLE_VALUE_DIRECTIVES = ['title', 'sorttitle', 'album', 'year', 'copyright', 'duration'];
+
+/** Metadata that may legitimately change mid-song (reported as info) */
+const CHANGEABLE_DIRECTIVES = ['key', 'tempo', 'time', 'capo'];
+
+function directiveRange(directive: ChordProDirective, lineIndex: number): ChordProRange {
+  // Range covers the braces, not surrounding indentation
+  const start = directive.before.length - directive.before.trimStart().length;
+  const text = serializeDirective(directive).trimEnd();
+  return {
+    startLine: lineIndex + 1,
+    startColumn: start + 1,
+    endLine: lineIndex + 1,
+    endColumn: text.length + 1,
+  };
+}
+
+function sectionEndKind(directive: ChordProDirective): string {
+  return directive.canonicalName.slice('end_of_'.length);
+}
+
+// ============================================================================
+// Linter
+// ============================================================================
+
+/**
+ * Lint ChordPro content (or an already-parsed document).
+ * Diagnostics are sorted by position.
+ */
+export function lintChordPro(content: string | ChordProDocument): ChordProDiagnostic[] {
+  const doc = typeof content === 'string' ? parseChordPro(content) : content;
+  const diagnostics: ChordProDiagnostic[] = [];
+  const seenMetadata = new Map<string, number>();
+  let hasTitle = false;
+
+  forEachLine(doc, (line, index, section) => {
+    if (line.type !== 'directive') return;
+
+    const range = directiveRange(line, index);
+    const name = line.canonicalName;
+
+    if (!isKnownDirective(line.name)) {
+      diagnostics.push({
+        code: 'unknown-directive',
+        severity: 'warning',
+        message: `Unknown directive "{${line.name}}"`,
+        range,
+      });
+    }
+
+    // Section balance
+    if (name.startsWith('end_of_')) {
+      if (!section || section.end !== line) {
+        diagnostics.push({
+          code: 'unmatched-section-end',
+          severity: 'error',
+          message: `"{${line.name}}" has no matching start`,
+          range,
+        });
+      } else if (sectionEndKind(line) !== section.kind) {
+        diagnostics.push({
+          code: 'mismatched-section-end',
+          severity: 'error',
+          message: `"{${line.name}}" closes a ${section.kind} section`,
+          range,
+        });
+      }
+    } else if (name.startsWith('start_of_')) {
+      if (section && section.start !== line) {
+        diagnostics.push({
+          code: 'unterminated-section',
+          severity: 'error',
+          message: `"{${line.name}}" starts inside an unclosed ${section.kind} section`,
+          range,
+        });
+      } else if (section && !section.end) {
+        diagnostics.push({
+          code: 'unterminated-section',
+          severity: 'error',
+          message: `${section.kind.charAt(0).toUpperCase() + section.kind.slice(1)} section is never closed`,
+          range,
+        });
+      }
+    }
+
+    // Metadata
+    if (name === 'title' && line.value?.trim()) {
+      hasTitle = true;
+    }
+
+    const isSingle = SINGLE_VALUE_DIRECTIVES.includes(name);
+    if (isSingle || CHANGEABLE_DIRECTIVES.includes(name)) {
+      const firstLine = seenMetadata.get(name);
+      if (firstLine === undefined) {
+        seenMetadata.set(name, index + 1);
+      } else {
+        diagnostics.push({
+          code: 'duplicate-metadata',
+          severity: isSingle ? 'warning' : 'info',
+          message: `"{${name}}" is already set on line ${firstLine}`,
+          range,
+        });
+      }
+    }
+  });
+
+  for (const occurrence of getChordOccurrences(doc)) {
+    if (!parseChord(occurrence.chord)) {
+      diagnostics.push({
+        code: 'invalid-chord',
+        severity: 'warning',
+        message: `Unrecognised chord "${occurrence.chord}"`,
+        range: {
+          startLine: occurrence.line + 1,
+          startColumn: occurrence.column + 1,
+          endLine: occurrence.line + 1,
+          endColumn: occurrence.column + occurrence.chord.length + 1,
+        },
+      });
+    }
+  }
+
+  if (!hasTitle) {
+    diagnostics.push({
+      code: 'missing-title',
+      severity: 'warning',
+      message: 'Song has no {title} directive',
+      range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+    });
+  }
+
+  return diagnostics.sort(
+    (a, b) =>
+      a.range.startLine - b.range.startLine || a.range.startColumn - b.range.startColumn
+  );
+}
+
+/**
+ * Count diagnostics by severity (for badges and summaries).
+ */
+export function summarizeDiagnostics(
+  diagnostics: ChordProDiagnostic[]
+): Record<ChordProDiagnosticSeverity, number> {
+  const summary: Record<ChordProDiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    summary[diagnostic.severity]++;
+  }
+  return summary;
+}
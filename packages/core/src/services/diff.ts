@@ -0,0 +1,298 @@
+/**
+ * Content Diff Service
+ *
+ * Line-level diff of ChordPro content, used to compare snapshots with
+ * each other or with the current arrangement. Removed and added lines
+ * that are edits of the same line are paired into "changed" lines, so
+ * chord edits can be told apart from lyric edits:
+ * - "[G]Amazing grace" → "[A]Amazing grace" is a chord-only change (G → A)
+ * - "[G]Amazing grace" → "[G]Amazing race" is a lyric change
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffLineType = 'equal' | 'added' | 'removed' | 'changed';
+
+/** A chord that was added, removed or replaced at a lyric position */
+export interface ChordChange {
+  /** Column in the lyrics (chords stripped) the chord sits above */
+  position: number;
+  from?: string;
+  to?: string;
+}
+
+export interface DiffLine {
+  type: DiffLineType;
+  /** 1-based line number in the old content (equal, removed, changed) */
+  oldLineNumber?: number;
+  /** 1-based line number in the new content (equal, added, changed) */
+  newLineNumber?: number;
+  oldText?: string;
+  newText?: string;
+  /** Changed lines: the chords differ */
+  chordsChanged?: boolean;
+  /** Changed lines: the lyrics (text without chords) differ */
+  lyricsChanged?: boolean;
+  /** Changed lines with the same lyrics: chord edits by position */
+  chordChanges?: ChordChange[];
+}
+
+export interface ContentDiff {
+  lines: DiffLine[];
+  /** True if the two versions are the same */
+  identical: boolean;
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+    /** Lines where only chords changed */
+    chordOnly: number;
+  };
+}
+
+// ============================================================================
+// Line Parsing
+// ============================================================================
+
+interface ChordLine {
+  lyrics: string;
+  /** Lyric position → chord(s) at that position */
+  chords: Map<number, string>;
+}
+
+function splitChordLine(line: string): ChordLine {
+  const chords = new Map<number, string>();
+  let lyrics = '';
+  let lastIndex = 0;
+
+  for (const match of line.matchAll(/\[([^\]]*)\]/g)) {
+    lyrics += line.slice(lastIndex, match.index);
+    const existing = chords.get(lyrics.length);
+    chords.set(lyrics.length, existing ? `${existing} ${match[1]}` : match[1]);
+    lastIndex = match.index! + match[0].length;
+  }
+  lyrics += line.slice(lastIndex);
+
+  return { lyrics, chords };
+}
+
+function sameChordSequence(a: ChordLine, b: ChordLine): boolean {
+  const aChords = [...a.chords.values()];
+  const bChords = [...b.chords.values()];
+  return aChords.length === bChords.length && aChords.every((chord, i) => chord === bChords[i]);
+}
+
+/**
+ * How alike two lines' lyrics are, 0-1, by shared words.
+ * Lines with no lyrics (chord-only lines) count as alike.
+ */
+function lyricSimilarity(a: ChordLine, b: ChordLine): number {
+  const aWords = a.lyrics.toLowerCase().split(/\s+/).filter(Boolean);
+  const bWords = b.lyrics.toLowerCase().split(/\s+/).filter(Boolean);
+  if (aWords.length === 0 && bWords.length === 0) return 1;
+  if (aWords.length === 0 || bWords.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const word of aWords) remaining.set(word, (remaining.get(word) ?? 0) + 1);
+  let common = 0;
+  for (const word of bWords) {
+    const count = remaining.get(word) ?? 0;
+    if (count > 0) {
+      common++;
+      remaining.set(word, count - 1);
+    }
+  }
+  return (2 * common) / (aWords.length + bWords.length);
+}
+
+/** Removed/added lines at least this alike are shown as one changed line */
+const CHANGED_LINE_SIMILARITY = 0.5;
+
+function getChordChanges(oldLine: ChordLine, newLine: ChordLine): ChordChange[] {
+  const positions = [...new Set([...oldLine.chords.keys(), ...newLine.chords.keys()])].sort((a, b) => a - b);
+  const changes: ChordChange[] = [];
+  for (const position of positions) {
+    const from = oldLine.chords.get(position);
+    const to = newLine.chords.get(position);
+    if (from !== to) changes.push({ position, from, to });
+  }
+  return changes;
+}
+
+function changedLine(
+  oldText: string,
+  newText: string,
+  oldLineNumber: number,
+  newLineNumber: number
+): DiffLine {
+  const oldLine = splitChordLine(oldText);
+  const newLine = splitChordLine(newText);
+  const lyricsChanged = oldLine.lyrics !== newLine.lyrics;
+  // Chord positions only line up when the lyrics are the same
+  const chordChanges = lyricsChanged ? undefined : getChordChanges(oldLine, newLine);
+
+  return {
+    type: 'changed',
+    oldLineNumber,
+    newLineNumber,
+    oldText,
+    newText,
+    lyricsChanged,
+    chordsChanged: chordChanges ? chordChanges.length > 0 : !sameChordSequence(oldLine, newLine),
+    chordChanges,
+  };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+export type LineEdit = { type: 'equal' | 'added' | 'removed'; oldIndex?: number; newIndex?: number };
+
+/**
+ * Longest-common-subsequence edit script between two line arrays.
+ * Also used by the three-way merge.
+ */
+export function diffSequences(oldLines: string[], newLines: string[]): LineEdit[] {
+  // Common prefix and suffix don't need the O(n·m) table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const n = oldEnd - start;
+  const m = newEnd - start;
+  const width = m + 1;
+  // lengths[i * width + j] = LCS length of old[start+i..] and new[start+j..]
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldLines[start + i] === newLines[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const edits: LineEdit[] = [];
+  for (let k = 0; k < start; k++) edits.push({ type: 'equal', oldIndex: k, newIndex: k });
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[start + i] === newLines[start + j]) {
+      edits.push({ type: 'equal', oldIndex: start + i, newIndex: start + j });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      edits.push({ type: 'added', newIndex: start + j });
+      j++;
+    } else {
+      edits.push({ type: 'removed', oldIndex: start + i });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    edits.push({ type: 'equal', oldIndex: oldEnd + k, newIndex: newEnd + k });
+  }
+  return edits;
+}
+
+/**
+ * Pair the removed and added lines of one hunk into changed lines,
+ * keeping the order of both sides.
+ */
+function pairHunk(removed: number[], added: number[], oldLines: string[], newLines: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let r = 0;
+  let a = 0;
+
+  const emitRemoved = (until: number) => {
+    for (; r < until; r++) {
+      lines.push({ type: 'removed', oldLineNumber: removed[r] + 1, oldText: oldLines[removed[r]] });
+    }
+  };
+  const emitAdded = (until: number) => {
+    for (; a < until; a++) {
+      lines.push({ type: 'added', newLineNumber: added[a] + 1, newText: newLines[added[a]] });
+    }
+  };
+
+  for (let ri = 0; ri < removed.length; ri++) {
+    const oldLine = splitChordLine(oldLines[removed[ri]]);
+    for (let ai = a; ai < added.length; ai++) {
+      if (lyricSimilarity(oldLine, splitChordLine(newLines[added[ai]])) >= CHANGED_LINE_SIMILARITY) {
+        emitRemoved(ri);
+        emitAdded(ai);
+        lines.push(changedLine(oldLines[removed[ri]], newLines[added[ai]], removed[ri] + 1, added[ai] + 1));
+        r = ri + 1;
+        a = ai + 1;
+        break;
+      }
+    }
+  }
+
+  emitRemoved(removed.length);
+  emitAdded(added.length);
+  return lines;
+}
+
+/**
+ * Diff two versions of ChordPro content line by line.
+ */
+export function diffChordPro(oldContent: string, newContent: string): ContentDiff {
+  const oldLines = oldContent.split(/\r?\n/);
+  const newLines = newContent.split(/\r?\n/);
+  const edits = diffSequences(oldLines, newLines);
+
+  const lines: DiffLine[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flushHunk = () => {
+    if (removed.length > 0 || added.length > 0) {
+      lines.push(...pairHunk(removed, added, oldLines, newLines));
+      removed = [];
+      added = [];
+    }
+  };
+
+  for (const edit of edits) {
+    if (edit.type === 'equal') {
+      flushHunk();
+      lines.push({
+        type: 'equal',
+        oldLineNumber: edit.oldIndex! + 1,
+        newLineNumber: edit.newIndex! + 1,
+        oldText: oldLines[edit.oldIndex!],
+        newText: newLines[edit.newIndex!],
+      });
+    } else if (edit.type === 'removed') {
+      removed.push(edit.oldIndex!);
+    } else {
+      added.push(edit.newIndex!);
+    }
+  }
+  flushHunk();
+
+  const count = (type: DiffLineType) => lines.filter((line) => line.type === type).length;
+  return {
+    lines,
+    identical: lines.every((line) => line.type === 'equal'),
+    stats: {
+      added: count('added'),
+      removed: count('removed'),
+      changed: count('changed'),
+      chordOnly: lines.filter((line) => line.type === 'changed' && !line.lyricsChanged).length,
+    },
+  };
+}
@@ -11,13 +11,27 @@ import type {
   Snapshot,
   User,
   Space,
+  Membership,
+  MemberRole,
+  SpaceActivity,
+  SpaceActivityDetails,
+  SpaceActivityType,
   Session,
   ConflictInfo,
+  ConflictResolution,
   Instrument,
   Visibility,
   SessionType,
+  SessionQueue,
+  SessionQueueItem,
+  SongSet,
+  MusicalKey,
+  UserPreferences,
 } from '../models/index.js';
-import { computeContentHash } from '../stores/index.js';
+import { INSTRUMENTS } from '../models/index.js';
+import { computeContentHash, matchesContentHash } from '../stores/index.js';
+import { mergeThreeWay } from './merge.js';
+import { parseChordPro, serializeChordPro, mapChords, mapDirectiveValues } from './chordpro.js';
 
 // ============================================================================
 // ID Generation
@@ -115,11 +129,99 @@ export function createArrangement(
     content,
     version: 1,
     baseVersionHash: computeContentHash(content),
+    baseContent: content,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 }
 
+/**
+ * Map a renderer instrument ID (e.g. "baritone-ukulele", "guitar-drop-d")
+ * to the Instrument it belongs to.
+ */
+export function getInstrumentFromRendererId(instrumentId: string): Instrument {
+  const id = instrumentId.toLowerCase();
+  const match =
+    INSTRUMENTS.find((instrument) => id.startsWith(instrument)) ??
+    INSTRUMENTS.find((instrument) => id.includes(instrument));
+  return match ?? 'other';
+}
+
+/**
+ * Copy an arrangement as a new arrangement for another instrument.
+ * An {instrument:} directive in the content is rewritten to match.
+ *
+ * @param arrangement - The arrangement to copy
+ * @param instrument - Instrument for the copy
+ * @param options - Tuning/capo for the copy, and the renderer instrument ID
+ *   to write into {instrument:} (defaults to the instrument)
+ */
+export function duplicateArrangement(
+  arrangement: Arrangement,
+  instrument: Instrument,
+  options?: {
+    tuning?: string;
+    capo?: number;
+    rendererInstrument?: string;
+  }
+): Arrangement {
+  const doc = mapDirectiveValues(
+    parseChordPro(arrangement.content),
+    'instrument',
+    () => options?.rendererInstrument ?? instrument
+  );
+
+  return createArrangement(arrangement.songId, instrument, {
+    content: serializeChordPro(doc),
+    tuning: options?.tuning,
+    capo: options?.capo,
+  });
+}
+
+/**
+ * Order arrangements oldest first. The first arrangement is the song's
+ * default, used when no instrument preference matches.
+ */
+export function sortArrangements<T extends Pick<Arrangement, 'createdAt'>>(arrangements: T[]): T[] {
+  return [...arrangements].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
+
+/**
+ * Pick the arrangement to show for a player's instruments.
+ * Instruments are tried in order (renderer IDs like "baritone-ukulele" are
+ * accepted); falls back to the default arrangement.
+ */
+export function selectArrangementForInstruments<T extends Pick<Arrangement, 'instrument' | 'createdAt'>>(
+  arrangements: T[],
+  instruments: readonly string[]
+): T | undefined {
+  const sorted = sortArrangements(arrangements);
+  for (const id of instruments) {
+    const instrument = getInstrumentFromRendererId(id);
+    const match = sorted.find((arrangement) => arrangement.instrument === instrument);
+    if (match) return match;
+  }
+  return sorted[0];
+}
+
+/**
+ * A user's instruments in order of preference: the default renderer
+ * instrument from preferences first, then their profile instruments.
+ */
+export function getPreferredInstruments(
+  user?: Pick<User, 'instruments'> | null,
+  preferences?: Pick<UserPreferences, 'defaultInstrument'> | null
+): string[] {
+  const instruments: string[] = [];
+  if (preferences?.defaultInstrument) instruments.push(preferences.defaultInstrument);
+  for (const instrument of user?.instruments ?? []) {
+    if (!instruments.includes(instrument)) instruments.push(instrument);
+  }
+  return instruments;
+}
+
 // ============================================================================
 // Song Lineage Service
 // ============================================================================
@@ -235,7 +337,8 @@ export function hasViewableOriginal(song: Song): boolean {
 // Snapshot Service
 // ============================================================================
 
-const MAX_SNAPSHOTS_PER_ARRANGEMENT = 10;
+/** Snapshots kept per arrangement when preferences don't set snapshotRetention */
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
 
 export function createSnapshot(
   arrangement: Arrangement,
@@ -252,33 +355,72 @@ export function createSnapshot(
   };
 }
 
-export function pruneSnapshots(snapshots: Snapshot[]): Snapshot[] {
-  if (snapshots.length <= MAX_SNAPSHOTS_PER_ARRANGEMENT) {
-    return snapshots;
-  }
-  // Keep the most recent snapshots
-  return snapshots
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-    .slice(0, MAX_SNAPSHOTS_PER_ARRANGEMENT);
+/**
+ * Get the snapshots to keep for one arrangement: the most recent
+ * `retention` unnamed snapshots, plus every named one (with a note).
+ * Returned newest first.
+ */
+export function pruneSnapshots(
+  snapshots: Snapshot[],
+  retention: number = DEFAULT_SNAPSHOT_RETENTION
+): Snapshot[] {
+  const sorted = [...snapshots].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  let unnamed = 0;
+  return sorted.filter((snapshot) => snapshot.note || unnamed++ < retention);
+}
+
+/**
+ * Short label for a snapshot: its name, or when it was taken.
+ */
+export function getSnapshotLabel(snapshot: Snapshot): string {
+  return snapshot.note || new Date(snapshot.createdAt).toLocaleString();
+}
+
+/**
+ * Restore an arrangement to a snapshot. The content being replaced is
+ * saved as a new snapshot first, so a restore can itself be undone.
+ */
+export function restoreSnapshot(
+  arrangement: Arrangement,
+  snapshot: Snapshot
+): { arrangement: Arrangement; snapshot: Snapshot } {
+  return {
+    snapshot: createSnapshot(arrangement, `Before restoring ${getSnapshotLabel(snapshot)}`),
+    arrangement: {
+      ...arrangement,
+      content: snapshot.content,
+      version: arrangement.version + 1,
+      updatedAt: new Date(),
+    },
+  };
 }
 
 // ============================================================================
 // Conflict Detection
 // ============================================================================
 
+/**
+ * Compare a local arrangement with the remote version of it.
+ * Returns null when there is nothing to resolve: the versions are the
+ * same, or only one side changed since the last sync.
+ */
 export function detectConflict(
   local: Arrangement,
   remote: { content: string; updatedAt: Date; userId: string; userName?: string }
 ): ConflictInfo | null {
-  // If base versions match, no conflict
-  const remoteHash = computeContentHash(remote.content);
-  if (local.baseVersionHash === remoteHash) {
+  if (local.content === remote.content) {
+    return null;
+  }
+
+  // If remote hasn't changed from base, local edits just need pushing
+  if (matchesContentHash(remote.content, local.baseVersionHash)) {
     return null;
   }
 
   // If local hasn't changed from base, just accept remote
-  const localHash = computeContentHash(local.content);
-  if (localHash === local.baseVersionHash) {
+  if (matchesContentHash(local.content, local.baseVersionHash)) {
     return null;
   }
 
@@ -289,6 +431,7 @@ export function detectConflict(
     arrangementId: local.id,
     localContent: local.content,
     remoteContent: remote.content,
+    baseContent: local.baseContent,
     localUpdatedAt: local.updatedAt,
     remoteUpdatedAt: remote.updatedAt,
     remoteUserId: remote.userId,
@@ -298,14 +441,79 @@ export function detectConflict(
   };
 }
 
+/**
+ * Merge a conflict's local and remote edits against its base version.
+ * Returns the merged content when the edits don't overlap, or null when
+ * the merge editor is needed (or the base version isn't known).
+ */
+export function autoMergeConflict(conflict: ConflictInfo): string | null {
+  if (conflict.baseContent === undefined) return null;
+  return mergeThreeWay(conflict.baseContent, conflict.localContent, conflict.remoteContent).content;
+}
+
 export function resolveConflict(
   conflict: ConflictInfo,
-  resolution: 'keep-local' | 'keep-remote' | 'keep-both'
+  resolution: ConflictResolution,
+  mergedContent?: string
 ): ConflictInfo {
   return {
     ...conflict,
     resolved: true,
     resolution,
+    mergedContent: resolution === 'merged' ? mergedContent : undefined,
+  };
+}
+
+/**
+ * Apply a conflict resolution to the arrangement it belongs to. The remote
+ * content becomes the arrangement's base, since it's what the server has.
+ * The local side is the arrangement's current content rather than the
+ * conflict's localContent, so edits made after detection aren't lost.
+ * - keep-local / keep-remote: that side's content
+ * - keep-both: the remote content, plus a fork holding the local content
+ * - merged: mergedContent
+ */
+export function applyConflictResolution(
+  arrangement: Arrangement,
+  conflict: ConflictInfo,
+  resolution: ConflictResolution,
+  mergedContent?: string
+): { arrangement: Arrangement; fork?: Arrangement } {
+  const content =
+    resolution === 'keep-local'
+      ? arrangement.content
+      : resolution === 'merged'
+        ? (mergedContent ?? arrangement.content)
+        : conflict.remoteContent;
+
+  const resolved = markArrangementSynced(
+    { ...arrangement, content, version: arrangement.version + 1, updatedAt: new Date() },
+    conflict.remoteContent
+  );
+
+  if (resolution !== 'keep-both') {
+    return { arrangement: resolved };
+  }
+
+  return {
+    arrangement: resolved,
+    fork: createArrangement(arrangement.songId, arrangement.instrument, {
+      tuning: arrangement.tuning,
+      capo: arrangement.capo,
+      content: arrangement.content,
+    }),
+  };
+}
+
+/**
+ * Mark an arrangement's content as in sync with the server, making it the
+ * base for the next conflict check.
+ */
+export function markArrangementSynced(arrangement: Arrangement, content: string = arrangement.content): Arrangement {
+  return {
+    ...arrangement,
+    baseVersionHash: computeContentHash(content),
+    baseContent: content,
   };
 }
 
@@ -336,6 +544,39 @@ export function createSpace(
   };
 }
 
+export function createMembership(
+  userId: string,
+  spaceId: string,
+  role: MemberRole,
+  displayName?: string
+): Membership {
+  return {
+    id: generateId(),
+    userId,
+    spaceId,
+    role,
+    displayName,
+    joinedAt: new Date(),
+  };
+}
+
+export function createSpaceActivity(
+  spaceId: string,
+  type: SpaceActivityType,
+  actor: { id: string; name: string },
+  details: SpaceActivityDetails = {}
+): SpaceActivity {
+  return {
+    ...details,
+    id: generateId(),
+    spaceId,
+    type,
+    actorId: actor.id,
+    actorName: actor.name,
+    createdAt: new Date(),
+  };
+}
+
 // ============================================================================
 // Session Service
 // ============================================================================
@@ -402,6 +643,46 @@ export function isSessionExpired(session: Session): boolean {
   return new Date() > session.expiresAt;
 }
 
+// ============================================================================
+// Session Queue Service
+// ============================================================================
+
+/**
+ * Create a session queue from a setlist. Songs the session doesn't share
+ * are left out.
+ */
+export function createSessionQueue(
+  setlist: SongSet,
+  sharedSongIds: string[],
+  userId: string
+): SessionQueue {
+  if (!setlist.isSetlist) {
+    throw new Error(`'${setlist.name}' is a collection, not a setlist`);
+  }
+
+  const shared = new Set(sharedSongIds);
+  return {
+    setlistId: setlist.id,
+    name: setlist.name,
+    items: setlist.songIds
+      .filter((songId) => shared.has(songId))
+      .map((songId) => ({ id: generateId(), songId, skipped: false })),
+    currentIndex: -1,
+    setBy: userId,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * The first item after an index that isn't skipped
+ */
+export function getNextQueueItem(
+  queue: SessionQueue,
+  fromIndex: number = queue.currentIndex
+): SessionQueueItem | undefined {
+  return queue.items.slice(fromIndex + 1).find((item) => !item.skipped);
+}
+
 // ============================================================================
 // Transpose Service
 // ============================================================================
@@ -423,6 +704,8 @@ const ENHARMONIC_MAP: Record<string, string> = {
   'Ab': 'G#',
   'Bb': 'A#',
   'Cb': 'B',
+  'E#': 'F',
+  'B#': 'C',
 };
 
 /**
@@ -436,6 +719,36 @@ const SHARP_TO_FLAT: Record<string, string> = {
   'A#': 'Bb',
 };
 
+/**
+ * Key names by semitone index. The conventional names are the ones
+ * most charts use (Db not C#, but F# not Gb and C#m not Dbm).
+ */
+const MAJOR_KEY_NAMES = {
+  conventional: ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'],
+  flat: ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'],
+} as const satisfies Record<string, readonly MusicalKey[]>;
+
+const MINOR_KEY_NAMES: readonly MusicalKey[] =
+  ['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'];
+
+const NATURAL_NOTES = ['C', 'D', 'E', 'F', 'G', 'A', 'B'] as const;
+
+/**
+ * Letter steps above the tonic for each semitone offset, read as scale
+ * degrees: 1, b2, 2, b3, 3, 4, #4, 5, b6, 6, b7, 7.
+ */
+const DEGREE_LETTER_STEPS = [0, 1, 1, 2, 2, 3, 3, 4, 5, 5, 6, 6];
+
+/** Keys without flats in their name that still use a flat key signature */
+const FLAT_KEYS_WITHOUT_FLAT_NAMES = ['F', 'Dm', 'Gm', 'Cm', 'Fm'];
+
+/**
+ * Spelling for transposed chords:
+ * - boolean: prefer flats (true) or sharps (false) for every accidental
+ * - string: the target key, so chords are spelled as that key's scale degrees
+ */
+export type TransposeSpelling = boolean | string;
+
 /**
  * Parse a chord name into root, quality, and bass note.
  * E.g., "Am7/G" → { root: "A", quality: "m7", bass: "G" }
@@ -452,6 +765,30 @@ export function parseChord(chord: string): { root: string; quality: string; bass
   };
 }
 
+/**
+ * Parse a key name into its tonic and mode.
+ * Accepts "Am", "A minor", "Amin" and plain major keys.
+ */
+export function parseKey(key: string): { tonic: string; minor: boolean } | null {
+  const match = key.trim().match(/^([A-G][#b]?)\s*(m|min|minor|maj|major)?$/);
+  if (!match || getNoteIndex(match[1]) < 0) return null;
+
+  return {
+    tonic: match[1],
+    minor: match[2] !== undefined && match[2].startsWith('m') && !match[2].startsWith('maj'),
+  };
+}
+
+/**
+ * Check if a key is written with flats (F, Bb, Dm, ...).
+ */
+export function isFlatKey(key: string): boolean {
+  const parsed = parseKey(key);
+  if (!parsed) return false;
+  return parsed.tonic.endsWith('b') ||
+    FLAT_KEYS_WITHOUT_FLAT_NAMES.includes(parsed.tonic + (parsed.minor ? 'm' : ''));
+}
+
 /**
  * Get the semitone index of a note (0-11)
  */
@@ -461,22 +798,57 @@ export function getNoteIndex(note: string): number {
   return index >= 0 ? index : -1;
 }
 
+/**
+ * Spell a pitch class (0-11) for a key.
+ * Notes are named by their scale degree from the tonic, so Bb in F is
+ * "Bb" and F# in E is "F#". Spellings outside the 12 common note names
+ * (E#, Cb, double accidentals) fall back to the key's accidental.
+ */
+export function spellNoteForKey(noteIndex: number, key: string): string {
+  const pitch = ((noteIndex % 12) + 12) % 12;
+  const parsed = parseKey(key);
+  const fallback = CHROMATIC_SCALE[pitch];
+  if (!parsed) return fallback;
+
+  const tonicIndex = getNoteIndex(parsed.tonic);
+  const offset = (pitch - tonicIndex + 12) % 12;
+  const tonicLetter = NATURAL_NOTES.indexOf(parsed.tonic[0] as typeof NATURAL_NOTES[number]);
+  const letter = NATURAL_NOTES[(tonicLetter + DEGREE_LETTER_STEPS[offset]) % 7];
+  const accidental = (pitch - getNoteIndex(letter) + 12) % 12;
+
+  const spelled =
+    accidental === 0 ? letter :
+    accidental === 1 ? `${letter}#` :
+    accidental === 11 ? `${letter}b` :
+    null;
+
+  if (spelled && getNoteIndex(spelled) >= 0 && !['E#', 'B#', 'Cb', 'Fb'].includes(spelled)) {
+    return spelled;
+  }
+  return isFlatKey(key) && SHARP_TO_FLAT[fallback] ? SHARP_TO_FLAT[fallback] : fallback;
+}
+
 /**
  * Transpose a single note by N semitones.
  * @param note - The note to transpose (e.g., "C#", "Bb")
  * @param semitones - Number of semitones to transpose (positive = up, negative = down)
- * @param preferFlats - Whether to prefer flat notation
+ * @param spelling - Prefer flats, or the target key to spell for
  */
-export function transposeNote(note: string, semitones: number, preferFlats = false): string {
+export function transposeNote(note: string, semitones: number, spelling: TransposeSpelling = false): string {
   const index = getNoteIndex(note);
   if (index < 0) return note;
 
   // Calculate new index with wrapping
   const newIndex = ((index + semitones) % 12 + 12) % 12;
+
+  if (typeof spelling === 'string') {
+    return spellNoteForKey(newIndex, spelling);
+  }
+
   const result = CHROMATIC_SCALE[newIndex];
 
   // Convert to flat if preferred and available
-  if (preferFlats && SHARP_TO_FLAT[result]) {
+  if (spelling && SHARP_TO_FLAT[result]) {
     return SHARP_TO_FLAT[result];
   }
 
@@ -487,18 +859,44 @@ export function transposeNote(note: string, semitones: number, preferFlats = fal
  * Transpose a chord by N semitones.
  * @param chord - The chord to transpose (e.g., "Am7/G")
  * @param semitones - Number of semitones
- * @param preferFlats - Whether to prefer flat notation
+ * @param spelling - Prefer flats, or the target key to spell for
  */
-export function transposeChord(chord: string, semitones: number, preferFlats = false): string {
+export function transposeChord(chord: string, semitones: number, spelling: TransposeSpelling = false): string {
   const parsed = parseChord(chord);
   if (!parsed) return chord;
 
-  const newRoot = transposeNote(parsed.root, semitones, preferFlats);
-  const newBass = parsed.bass ? transposeNote(parsed.bass, semitones, preferFlats) : undefined;
+  const newRoot = transposeNote(parsed.root, semitones, spelling);
+  const newBass = parsed.bass ? transposeNote(parsed.bass, semitones, spelling) : undefined;
 
   return newRoot + parsed.quality + (newBass ? `/${newBass}` : '');
 }
 
+/**
+ * Transpose a key by N semitones, returning a conventional key name.
+ * @param key - Starting key (e.g., "G", "Em")
+ * @param semitones - Number of semitones
+ * @param preferFlats - Use Gb rather than F# for major keys
+ * @returns The transposed key, or undefined if the key can't be read
+ */
+export function transposeKey(key: string, semitones: number, preferFlats = false): MusicalKey | undefined {
+  const parsed = parseKey(key);
+  if (!parsed) return undefined;
+
+  const index = ((getNoteIndex(parsed.tonic) + semitones) % 12 + 12) % 12;
+  if (parsed.minor) return MINOR_KEY_NAMES[index];
+  return (preferFlats ? MAJOR_KEY_NAMES.flat : MAJOR_KEY_NAMES.conventional)[index];
+}
+
+/**
+ * Check if two key names are the same key (e.g., "F#" and "Gb").
+ */
+export function isSameKey(a: string, b: string): boolean {
+  const keyA = parseKey(a);
+  const keyB = parseKey(b);
+  if (!keyA || !keyB) return false;
+  return keyA.minor === keyB.minor && getNoteIndex(keyA.tonic) === getNoteIndex(keyB.tonic);
+}
+
 /**
  * Calculate semitones between two keys.
  * @param fromKey - Starting key
@@ -519,22 +917,75 @@ export function getSemitonesBetweenKeys(fromKey: string, toKey: string): number
 
 /**
  * Transpose all chords in ChordPro content.
+ *
+ * Chords are spelled for the key they're played in: each {key:} directive
+ * is transposed too, and chords after it use the new key. Chords before
+ * any {key:} directive use the target key when one is given.
+ *
  * @param content - ChordPro formatted content
  * @param semitones - Number of semitones to transpose
- * @param preferFlats - Whether to prefer flat notation
+ * @param spelling - Prefer flats, or the target key to spell for
  */
 export function transposeChordProContent(
   content: string,
   semitones: number,
-  preferFlats = false
+  spelling: TransposeSpelling = false
 ): string {
   if (semitones === 0) return content;
 
-  // Match chords in square brackets [Chord]
-  return content.replace(/\[([^\]]+)\]/g, (_, chord) => {
-    const transposed = transposeChord(chord, semitones, preferFlats);
-    return `[${transposed}]`;
+  const targetKey = typeof spelling === 'string' ? spelling : undefined;
+  const preferFlats = spelling === true;
+
+  // An explicit target key wins over the computed name for the same key (Gb vs F#)
+  const transposeDirectiveKey = (key: string): string | undefined => {
+    const transposed = transposeKey(key, semitones, preferFlats);
+    if (transposed && targetKey && isSameKey(transposed, targetKey)) {
+      return targetKey;
+    }
+    return transposed;
+  };
+
+  let doc = mapChords(parseChordPro(content), (chord, context) => {
+    const key = (context.key && transposeDirectiveKey(context.key)) ?? targetKey;
+    return transposeChord(chord, semitones, key ?? preferFlats);
   });
+  doc = mapDirectiveValues(doc, 'key', (key) => transposeDirectiveKey(key) ?? key);
+
+  return serializeChordPro(doc);
+}
+
+/**
+ * Permanently transpose a song and its arrangements.
+ * Updates Song.key, every arrangement's chords and its {key:} directives.
+ *
+ * @param song - The song to transpose
+ * @param arrangements - The song's arrangements
+ * @param semitones - Number of semitones to transpose
+ * @param targetKey - Key name to use (e.g. "Gb" rather than "F#"); derived from song.key if omitted
+ */
+export function transposeSong(
+  song: Song,
+  arrangements: Arrangement[],
+  semitones: number,
+  targetKey?: MusicalKey
+): { song: Song; arrangements: Arrangement[] } {
+  const normalized = ((semitones % 12) + 12) % 12;
+  if (normalized === 0) {
+    return { song, arrangements };
+  }
+
+  const key = targetKey ?? (song.key ? transposeKey(song.key, normalized) : undefined);
+  const now = new Date();
+
+  return {
+    song: { ...song, key, updatedAt: now },
+    arrangements: arrangements.map((arrangement) => ({
+      ...arrangement,
+      content: transposeChordProContent(arrangement.content, normalized, key ?? false),
+      version: arrangement.version + 1,
+      updatedAt: now,
+    })),
+  };
 }
 
 /**
@@ -547,6 +998,135 @@ export function getTransposeDisplayName(semitones: number): string {
   return `${direction}${semitones} semitone${Math.abs(semitones) !== 1 ? 's' : ''}`;
 }
 
+// ============================================================================
+// ChordPro Document Model (re-export)
+// ============================================================================
+
+export {
+  parseChordPro,
+  serializeChordPro,
+  parseDirective,
+  parseLyricsLine,
+  serializeDirective,
+  serializeLine,
+  forEachLine,
+  findDirectives,
+  getDirectiveValue,
+  getChordProMetadata,
+  getSectionLabels,
+  getChordOccurrences,
+  extractChords,
+  mapChords,
+  mapDirectiveValues,
+  isAnnotation,
+  canonicalDirectiveName,
+  isKnownDirective,
+  CHORDPRO_DIRECTIVE_ALIASES,
+  KNOWN_CHORDPRO_DIRECTIVES,
+  type ChordProDocument,
+  type ChordProNode,
+  type ChordProLine,
+  type ChordProSection,
+  type ChordProDirective,
+  type ChordProLyricsLine,
+  type ChordLyricPair,
+  type ChordProCommentLine,
+  type ChordProEmptyLine,
+  type ChordProTabLine,
+  type ChordProGridLine,
+  type ChordProVerbatimLine,
+  type ChordProMetadata,
+  type ChordOccurrence,
+  type ChordMapContext,
+} from './chordpro.js';
+
+// ============================================================================
+// ChordPro Linter (re-export)
+// ============================================================================
+
+export {
+  lintChordPro,
+  summarizeDiagnostics,
+  type ChordProDiagnostic,
+  type ChordProDiagnosticCode,
+  type ChordProDiagnosticSeverity,
+  type ChordProRange,
+} from './chordproLinter.js';
+
+// ============================================================================
+// Capo Service (re-export)
+// ============================================================================
+
+export {
+  OPEN_CHORD_SHAPES,
+  getShapeFamily,
+  getShapeDifficulty,
+  getCapoShape,
+  getSoundingChord,
+  getCapoShapesContent,
+  getArrangementCapo,
+  suggestCapo,
+  type ShapeFamily,
+  type CapoSuggestion,
+  type CapoSuggestionOptions,
+} from './capo.js';
+
+// ============================================================================
+// Chord Notation (re-export)
+// ============================================================================
+
+export {
+  chordToScaleDegree,
+  scaleDegreeToChord,
+  toNashvilleNumber,
+  parseNashvilleNumber,
+  toRomanNumeral,
+  parseRomanNumeral,
+  convertChordNotation,
+  parseNumberChord,
+  toNumberChart,
+  fromNumberChart,
+  isNumberChart,
+  type ChordNotation,
+  type ScaleDegreeChord,
+} from './notation.js';
+
+// ============================================================================
+// Key Detection (re-export)
+// ============================================================================
+
+export {
+  detectKey,
+  KEY_DETECTION_MIN_CONFIDENCE,
+  type KeyCandidate,
+  type KeyDetectionResult,
+  type KeyDetectionOptions,
+} from './keyDetection.js';
+
+// ============================================================================
+// Content Diff (re-export)
+// ============================================================================
+
+export {
+  diffChordPro,
+  type DiffLineType,
+  type DiffLine,
+  type ChordChange,
+  type ContentDiff,
+} from './diff.js';
+
+// ============================================================================
+// Three-way Merge (re-export)
+// ============================================================================
+
+export {
+  mergeThreeWay,
+  applyMergeChoices,
+  type MergeHunk,
+  type MergeResult,
+  type MergeChoice,
+} from './merge.js';
+
 // ============================================================================
 // Scraper Service (re-export)
 // ============================================================================
@@ -572,8 +1152,13 @@ export {
   getRequiredTierForPermission,
   canUpgrade,
   getNextTier,
+  hasSpacePermission,
+  getSpacePermissions,
+  hasSessionPermission,
   TIER_INFO,
   type Permission,
+  type SpacePermission,
+  type SessionPermission,
   type TierInfo,
 } from './permissions.js';
 
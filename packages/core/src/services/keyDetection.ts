@@ -0,0 +1,176 @@
+/**
+ * Key Detection Service
+ *
+ * Infers the most likely key of a song from its chords, for imports and
+ * scrapes that arrive without {key:} or Song.key.
+ *
+ * Each of the 24 major/minor keys is scored against the chord progression:
+ * - Diatonic chords with the expected quality score highest
+ * - Chords built on scale notes but with the wrong quality score a little
+ * - Chords outside the key count against it
+ * - The tonic chord, a dominant 7th on V, and opening/closing on the
+ *   tonic get bonuses, which separates relative majors and minors
+ */
+
+import type { MusicalKey } from '../models/index.js';
+import {
+  parseChordPro,
+  getChordOccurrences,
+  isAnnotation,
+  type ChordProDocument,
+} from './chordpro.js';
+import { parseChord, getNoteIndex, transposeKey } from './index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KeyCandidate {
+  key: MusicalKey;
+  score: number;
+}
+
+export interface KeyDetectionResult {
+  key: MusicalKey;
+  /** 0-1: how well the chords fit and how clearly this key beats the rest */
+  confidence: number;
+  /** Other likely keys, best first (excluding `key`) */
+  alternatives: KeyCandidate[];
+}
+
+export interface KeyDetectionOptions {
+  /** Below this confidence, detectKey returns null (default 0) */
+  minConfidence?: number;
+  /** Number of alternatives to return (default 3) */
+  maxAlternatives?: number;
+}
+
+type TriadQuality = 'major' | 'minor' | 'diminished';
+
+// ============================================================================
+// Scales
+// ============================================================================
+
+/** Semitone offset → expected triad quality, for each mode */
+const DIATONIC_TRIADS: Record<'major' | 'minor', Record<number, TriadQuality[]>> = {
+  // I ii iii IV V vi vii°
+  major: {
+    0: ['major'], 2: ['minor'], 4: ['minor'], 5: ['major'],
+    7: ['major'], 9: ['minor'], 11: ['diminished'],
+  },
+  // i ii° III iv v/V VI VII (harmonic minor V is common)
+  minor: {
+    0: ['minor'], 2: ['diminished'], 3: ['major'], 5: ['minor'],
+    7: ['minor', 'major'], 8: ['major'], 10: ['major'],
+  },
+};
+
+/** Confidence below which a detected key should be confirmed by the user */
+export const KEY_DETECTION_MIN_CONFIDENCE = 0.5;
+
+const SCORE = {
+  diatonic: 1,
+  wrongQuality: 0.25,
+  outOfKey: -0.75,
+  tonic: 0.5,
+  dominantSeventh: 0.5,
+  firstChordTonic: 1.5,
+  lastChordTonic: 2.5,
+};
+
+function triadQuality(quality: string): TriadQuality {
+  if (quality.startsWith('dim') || quality.startsWith('m7b5')) return 'diminished';
+  if (quality.startsWith('m') && !quality.startsWith('maj')) return 'minor';
+  return 'major';
+}
+
+function scoreKey(
+  chords: Array<{ root: number; quality: TriadQuality; dominant: boolean }>,
+  tonic: number,
+  mode: 'major' | 'minor'
+): { score: number; diatonic: number } {
+  const triads = DIATONIC_TRIADS[mode];
+  const tonicQuality: TriadQuality = mode === 'major' ? 'major' : 'minor';
+  let score = 0;
+  let diatonic = 0;
+
+  chords.forEach((chord, index) => {
+    const offset = (chord.root - tonic + 12) % 12;
+    const expected = triads[offset];
+    const isTonic = offset === 0 && chord.quality === tonicQuality;
+
+    if (expected?.includes(chord.quality)) {
+      score += SCORE.diatonic;
+      diatonic++;
+    } else if (expected) {
+      score += SCORE.wrongQuality;
+    } else {
+      score += SCORE.outOfKey;
+    }
+
+    if (isTonic) {
+      score += SCORE.tonic;
+      if (index === 0) score += SCORE.firstChordTonic;
+      if (index === chords.length - 1) score += SCORE.lastChordTonic;
+    }
+    if (offset === 7 && chord.dominant) {
+      score += SCORE.dominantSeventh;
+    }
+  });
+
+  return { score, diatonic };
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect the most likely key of ChordPro content (or a parsed document).
+ * Returns null if the content has no readable chords, or the confidence
+ * is below options.minConfidence.
+ */
+export function detectKey(
+  content: string | ChordProDocument,
+  options: KeyDetectionOptions = {}
+): KeyDetectionResult | null {
+  const doc = typeof content === 'string' ? parseChordPro(content) : content;
+
+  const chords = getChordOccurrences(doc)
+    .filter(({ chord }) => !isAnnotation(chord))
+    .map(({ chord }) => parseChord(chord))
+    .filter((parsed): parsed is NonNullable<typeof parsed> => parsed !== null)
+    .map((parsed) => ({
+      root: getNoteIndex(parsed.root),
+      quality: triadQuality(parsed.quality),
+      dominant: /^7|^9|^13/.test(parsed.quality),
+    }));
+
+  if (chords.length === 0) return null;
+
+  const candidates: Array<KeyCandidate & { diatonic: number }> = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const mode of ['major', 'minor'] as const) {
+      const { score, diatonic } = scoreKey(chords, tonic, mode);
+      const name = transposeKey(mode === 'major' ? 'C' : 'Cm', tonic)!;
+      candidates.push({ key: name, score, diatonic });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const [best, second] = candidates;
+  const fit = best.diatonic / chords.length;
+  // Full margin once the winner scores at least twice the runner-up
+  const margin = best.score > 0 ? Math.min(1, (2 * (best.score - second.score)) / best.score) : 0;
+  const confidence = Math.round(fit * (0.5 + 0.5 * margin) * 100) / 100;
+
+  if (confidence < (options.minConfidence ?? 0)) return null;
+
+  return {
+    key: best.key,
+    confidence,
+    alternatives: candidates
+      .slice(1, 1 + (options.maxAlternatives ?? 3))
+      .map(({ key, score }) => ({ key, score })),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Three-way Merge Service
+ *
+ * Merges two edited versions of an arrangement (local and remote) against
+ * the version both started from (base), line by line:
+ * - Lines only one side changed take that side's edit
+ * - Lines both sides changed the same way are taken once
+ * - Lines both sides changed differently are conflicts, for the user to
+ *   resolve in the merge editor
+ *
+ * Two players editing different verses offline merge cleanly.
+ */
+
+import { diffSequences } from './diff.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MergeHunk =
+  | { type: 'unchanged'; lines: string[] }
+  /** Changed on one side, or the same change on both */
+  | { type: 'local' | 'remote' | 'both'; lines: string[]; base: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface MergeResult {
+  hunks: MergeHunk[];
+  /** Number of conflict hunks */
+  conflicts: number;
+  /** Merged content, or null if there are conflicts */
+  content: string | null;
+}
+
+/**
+ * How to resolve one conflict hunk: keep one side, keep both (local
+ * first), or use edited lines.
+ */
+export type MergeChoice = 'local' | 'remote' | 'both' | { lines: string[] };
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/** For each base line, the index of the same line in the other version (or -1) */
+function matchBaseLines(base: string[], other: string[]): Int32Array {
+  const matches = new Int32Array(base.length).fill(-1);
+  for (const edit of diffSequences(base, other)) {
+    if (edit.type === 'equal') matches[edit.oldIndex!] = edit.newIndex!;
+  }
+  return matches;
+}
+
+/**
+ * Three-way merge of local and remote edits of base content.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const toLocal = matchBaseLines(baseLines, localLines);
+  const toRemote = matchBaseLines(baseLines, remoteLines);
+
+  const hunks: MergeHunk[] = [];
+  const pushUnchanged = (line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'unchanged') last.lines.push(line);
+    else hunks.push({ type: 'unchanged', lines: [line] });
+  };
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  while (b < baseLines.length || l < localLines.length || r < remoteLines.length) {
+    // Base line kept unchanged by both sides, right where we are
+    if (b < baseLines.length && toLocal[b] === l && toRemote[b] === r) {
+      pushUnchanged(baseLines[b]);
+      b++;
+      l++;
+      r++;
+      continue;
+    }
+
+    // Otherwise, the changed region runs to the next line both sides kept
+    let next = b;
+    while (next < baseLines.length && (toLocal[next] === -1 || toRemote[next] === -1)) {
+      next++;
+    }
+    const localEnd = next < baseLines.length ? toLocal[next] : localLines.length;
+    const remoteEnd = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(b, next);
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+    const localChanged = !sameLines(baseChunk, localChunk);
+    const remoteChanged = !sameLines(baseChunk, remoteChunk);
+
+    if (!localChanged && !remoteChanged) {
+      baseChunk.forEach(pushUnchanged);
+    } else if (!remoteChanged) {
+      hunks.push({ type: 'local', lines: localChunk, base: baseChunk });
+    } else if (!localChanged) {
+      hunks.push({ type: 'remote', lines: remoteChunk, base: baseChunk });
+    } else if (sameLines(localChunk, remoteChunk)) {
+      hunks.push({ type: 'both', lines: localChunk, base: baseChunk });
+    } else {
+      hunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+    }
+
+    b = next;
+    l = localEnd;
+    r = remoteEnd;
+  }
+
+  const conflicts = hunks.filter((hunk) => hunk.type === 'conflict').length;
+  return {
+    hunks,
+    conflicts,
+    content: conflicts === 0 ? applyMergeChoices(hunks, []) : null,
+  };
+}
+
+/**
+ * Build merged content from merge hunks, resolving conflict hunks in order
+ * with `choices` (one per conflict). Unresolved conflicts keep the local lines.
+ */
+export function applyMergeChoices(hunks: MergeHunk[], choices: MergeChoice[]): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const hunk of hunks) {
+    if (hunk.type !== 'conflict') {
+      lines.push(...hunk.lines);
+      continue;
+    }
+
+    const choice = choices[conflictIndex++] ?? 'local';
+    if (choice === 'local') lines.push(...hunk.local);
+    else if (choice === 'remote') lines.push(...hunk.remote);
+    else if (choice === 'both') lines.push(...hunk.local, ...hunk.remote);
+    else lines.push(...choice.lines);
+  }
+
+  return lines.join('\n');
+}
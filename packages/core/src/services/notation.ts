@@ -0,0 +1,286 @@
+/**
+ * Chord Notation Service
+ *
+ * Converts chords between letter names and key-relative notations:
+ * - Nashville numbers: 1 4 5(7) 6m, 1/3, b7
+ * - Roman numerals: I IV V vi, V7/7, bVII
+ *
+ * Degrees are counted from the tonic of the key, for minor keys too
+ * (Am: Am = 1m / i, C = b3 / bIII). Number charts don't depend on the
+ * transposition, so they read the same whatever key the band plays in.
+ */
+
+import {
+  parseChordPro,
+  serializeChordPro,
+  mapChords,
+  mapDirectiveValues,
+  isAnnotation,
+  extractChords,
+} from './chordpro.js';
+import {
+  parseChord,
+  parseKey,
+  getNoteIndex,
+  spellNoteForKey,
+} from './index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChordNotation = 'letter' | 'nashville' | 'roman';
+
+/** A chord as a scale degree of a key */
+export interface ScaleDegreeChord {
+  /** 1-7 */
+  degree: number;
+  /** -1 flat, 0 natural, 1 sharp */
+  accidental: -1 | 0 | 1;
+  /** Chord quality as written after a letter root (e.g. "m7", "sus4") */
+  quality: string;
+  bass?: { degree: number; accidental: -1 | 0 | 1 };
+}
+
+// ============================================================================
+// Degrees
+// ============================================================================
+
+/** Semitones above the tonic for scale degrees 1-7 (major scale) */
+const DEGREE_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+/** Degree and accidental for each semitone above the tonic */
+const SEMITONE_DEGREES: Array<{ degree: number; accidental: -1 | 0 | 1 }> = [
+  { degree: 1, accidental: 0 },
+  { degree: 2, accidental: -1 },
+  { degree: 2, accidental: 0 },
+  { degree: 3, accidental: -1 },
+  { degree: 3, accidental: 0 },
+  { degree: 4, accidental: 0 },
+  { degree: 4, accidental: 1 },
+  { degree: 5, accidental: 0 },
+  { degree: 6, accidental: -1 },
+  { degree: 6, accidental: 0 },
+  { degree: 7, accidental: -1 },
+  { degree: 7, accidental: 0 },
+];
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+function accidentalPrefix(accidental: -1 | 0 | 1): string {
+  return accidental === -1 ? 'b' : accidental === 1 ? '#' : '';
+}
+
+function parseAccidental(prefix: string | undefined): -1 | 0 | 1 {
+  return prefix === 'b' ? -1 : prefix === '#' ? 1 : 0;
+}
+
+function noteToDegree(note: string, tonicIndex: number) {
+  const offset = (getNoteIndex(note) - tonicIndex + 12) % 12;
+  return SEMITONE_DEGREES[offset];
+}
+
+function degreeToNote(degree: number, accidental: number, key: string): string {
+  const tonicIndex = getNoteIndex(parseKey(key)!.tonic);
+  return spellNoteForKey(tonicIndex + DEGREE_SEMITONES[degree - 1] + accidental, key);
+}
+
+function isMinorQuality(quality: string): boolean {
+  return quality.startsWith('m') && !quality.startsWith('maj');
+}
+
+/**
+ * Express a letter chord as a scale degree of a key.
+ * Returns null if the chord or key can't be read.
+ */
+export function chordToScaleDegree(chord: string, key: string): ScaleDegreeChord | null {
+  const parsed = parseChord(chord);
+  const parsedKey = parseKey(key);
+  if (!parsed || !parsedKey) return null;
+
+  const tonicIndex = getNoteIndex(parsedKey.tonic);
+  return {
+    ...noteToDegree(parsed.root, tonicIndex),
+    quality: parsed.quality,
+    bass: parsed.bass ? noteToDegree(parsed.bass, tonicIndex) : undefined,
+  };
+}
+
+/**
+ * Spell a scale degree chord as a letter chord in a key.
+ */
+export function scaleDegreeToChord(chord: ScaleDegreeChord, key: string): string | null {
+  if (!parseKey(key) || chord.degree < 1 || chord.degree > 7) return null;
+
+  const root = degreeToNote(chord.degree, chord.accidental, key);
+  const bass = chord.bass ? degreeToNote(chord.bass.degree, chord.bass.accidental, key) : undefined;
+  return root + chord.quality + (bass ? `/${bass}` : '');
+}
+
+// ============================================================================
+// Nashville Numbers
+// ============================================================================
+
+const NASHVILLE_PATTERN = /^([b#]?)([1-7])([^/]*)(?:\/([b#]?)([1-7]))?$/;
+
+/**
+ * Convert a letter chord to a Nashville number (e.g. "Am7" in C → "6m7").
+ * Returns the chord unchanged if it can't be read.
+ */
+export function toNashvilleNumber(chord: string, key: string): string {
+  const degree = chordToScaleDegree(chord, key);
+  if (!degree) return chord;
+
+  // "5(7)" rather than "57", which reads as fifty-seven
+  const quality = /^\d/.test(degree.quality) ? `(${degree.quality})` : degree.quality;
+  const bass = degree.bass ? `/${accidentalPrefix(degree.bass.accidental)}${degree.bass.degree}` : '';
+  return `${accidentalPrefix(degree.accidental)}${degree.degree}${quality}${bass}`;
+}
+
+/**
+ * Parse a Nashville number ("6m7", "b7", "5(7)", "1/3"). Accepts "-" for minor.
+ */
+export function parseNashvilleNumber(token: string): ScaleDegreeChord | null {
+  const match = token.match(NASHVILLE_PATTERN);
+  if (!match) return null;
+
+  const written = match[3].replace(/^\((.*)\)$/, '$1');
+  const quality = written.startsWith('-') ? `m${written.slice(1)}` : written;
+  return {
+    degree: parseInt(match[2], 10),
+    accidental: parseAccidental(match[1]),
+    quality,
+    bass: match[5] ? { degree: parseInt(match[5], 10), accidental: parseAccidental(match[4]) } : undefined,
+  };
+}
+
+// ============================================================================
+// Roman Numerals
+// ============================================================================
+
+const ROMAN_PATTERN = /^([b#]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(°|ø|\+)?([^/]*)(?:\/([b#]?)([1-7]))?$/;
+
+/**
+ * Convert a letter chord to a Roman numeral (e.g. "Am7" in C → "vi7").
+ * Minor chords are lower case; diminished gets "°", half-diminished "ø",
+ * augmented "+". Bass notes are written as degree numbers ("I/3").
+ */
+export function toRomanNumeral(chord: string, key: string): string {
+  const degree = chordToScaleDegree(chord, key);
+  if (!degree) return chord;
+
+  let numeral = ROMAN_NUMERALS[degree.degree - 1];
+  let quality = degree.quality;
+
+  if (quality.startsWith('dim')) {
+    numeral = numeral.toLowerCase();
+    quality = `°${quality.slice(3)}`;
+  } else if (quality.startsWith('m7b5')) {
+    numeral = numeral.toLowerCase();
+    quality = `ø7${quality.slice(4)}`;
+  } else if (quality.startsWith('aug')) {
+    quality = `+${quality.slice(3)}`;
+  } else if (isMinorQuality(quality)) {
+    numeral = numeral.toLowerCase();
+    quality = quality.slice(quality.startsWith('min') ? 3 : 1);
+  }
+
+  const bass = degree.bass ? `/${accidentalPrefix(degree.bass.accidental)}${degree.bass.degree}` : '';
+  return `${accidentalPrefix(degree.accidental)}${numeral}${quality}${bass}`;
+}
+
+/**
+ * Parse a Roman numeral chord ("vi7", "bVII", "ii°", "V/5").
+ */
+export function parseRomanNumeral(token: string): ScaleDegreeChord | null {
+  const match = token.match(ROMAN_PATTERN);
+  if (!match) return null;
+
+  const numeral = match[2];
+  const isLower = numeral === numeral.toLowerCase();
+  const symbol = match[3];
+  let quality = match[4];
+
+  if (symbol === '°') {
+    quality = `dim${quality}`;
+  } else if (symbol === 'ø') {
+    quality = `m7b5${quality.replace(/^7/, '')}`;
+  } else if (symbol === '+') {
+    quality = `aug${quality}`;
+  } else if (isLower) {
+    quality = `m${quality}`;
+  }
+
+  return {
+    degree: ROMAN_NUMERALS.indexOf(numeral.toUpperCase()) + 1,
+    accidental: parseAccidental(match[1]),
+    quality,
+    bass: match[6] ? { degree: parseInt(match[6], 10), accidental: parseAccidental(match[5]) } : undefined,
+  };
+}
+
+// ============================================================================
+// Content Conversion
+// ============================================================================
+
+/**
+ * Convert one chord to a notation, relative to a key.
+ */
+export function convertChordNotation(chord: string, notation: ChordNotation, key: string): string {
+  if (notation === 'nashville') return toNashvilleNumber(chord, key);
+  if (notation === 'roman') return toRomanNumeral(chord, key);
+  return chord;
+}
+
+/**
+ * Parse a Nashville number or Roman numeral chord.
+ */
+export function parseNumberChord(token: string): ScaleDegreeChord | null {
+  return parseNashvilleNumber(token) ?? parseRomanNumeral(token);
+}
+
+/**
+ * Render the chords of ChordPro content as Nashville numbers or Roman
+ * numerals. Each chord uses the {key:} in effect at that point, falling
+ * back to the given key (usually Song.key). Chords are left as letters
+ * when no key is known.
+ */
+export function toNumberChart(content: string, notation: ChordNotation, key?: string): string {
+  if (notation === 'letter') return content;
+
+  const doc = mapChords(parseChordPro(content), (chord, context) => {
+    const chordKey = context.key ?? key;
+    if (!chordKey || isAnnotation(chord)) return chord;
+    return convertChordNotation(chord, notation, chordKey);
+  });
+  return serializeChordPro(doc);
+}
+
+/**
+ * Turn a number chart (Nashville or Roman) back into letter chords in
+ * the chosen key. {key:} directives are set to that key, and tokens that
+ * aren't numbers (letter chords, annotations) are kept as they are.
+ */
+export function fromNumberChart(content: string, key: string): string {
+  if (!parseKey(key)) return content;
+
+  let doc = mapChords(parseChordPro(content), (chord) => {
+    if (isAnnotation(chord)) return chord;
+    const degree = parseNumberChord(chord);
+    return degree ? scaleDegreeToChord(degree, key) ?? chord : chord;
+  });
+  doc = mapDirectiveValues(doc, 'key', () => key);
+  return serializeChordPro(doc);
+}
+
+/**
+ * Check whether content is written as a number chart: most of its
+ * chords are Nashville numbers or Roman numerals.
+ */
+export function isNumberChart(content: string): boolean {
+  const chords = extractChords(content).filter((chord) => !isAnnotation(chord));
+  if (chords.length === 0) return false;
+
+  const numbered = chords.filter((chord) => parseNumberChord(chord) !== null).length;
+  return numbered / chords.length > 0.5;
+}
@@ -6,9 +6,20 @@
  * - basic: Edit songs and chords, save to cloud
  * - pro: All basic + create/host shared sessions
  * - mod: All pro + create system-default chords and instruments
+ *
+ * Inside a group space the member's role narrows this further: see
+ * hasSpacePermission. Inside a session, the participant's role decides
+ * what they can change: see hasSessionPermission.
  */
 
-import { SUBSCRIPTION_TIERS, type SubscriptionTier, type User } from '../models/index.js';
+import {
+  SUBSCRIPTION_TIERS,
+  type MemberRole,
+  type Membership,
+  type SessionRole,
+  type SubscriptionTier,
+  type User,
+} from '../models/index.js';
 
 // ============================================================================
 // Permission Types
@@ -137,6 +148,111 @@ export function getEffectiveTier(user: User | null): SubscriptionTier {
   return tier;
 }
 
+// ============================================================================
+// Space Permissions
+// ============================================================================
+
+export type SpacePermission =
+  | 'view_space_songs'
+  | 'edit_songs'
+  | 'share_songs'
+  | 'remove_shared_songs'
+  | 'edit_space'
+  | 'manage_members'
+  | 'manage_invites'
+  | 'delete_space'
+  | 'leave_space';
+
+const ROLE_PERMISSIONS: Record<MemberRole, SpacePermission[]> = {
+  owner: [
+    'view_space_songs',
+    'edit_songs',
+    'share_songs',
+    'remove_shared_songs',
+    'edit_space',
+    'manage_members',
+    'manage_invites',
+    'delete_space',
+  ],
+  editor: [
+    'view_space_songs',
+    'edit_songs',
+    'share_songs',
+    'remove_shared_songs',
+    'leave_space',
+  ],
+  viewer: [
+    'view_space_songs',
+    'leave_space',
+  ],
+};
+
+/**
+ * Tier permission a space permission also needs. Sharing puts the song in
+ * the cloud, so it needs save_remotely as well as an editor role; editing
+ * a shared song needs the edit_songs tier permission.
+ */
+const SPACE_PERMISSION_TIER_REQUIREMENTS: Partial<Record<SpacePermission, Permission>> = {
+  view_space_songs: 'view_songs',
+  edit_songs: 'edit_songs',
+  share_songs: 'save_remotely',
+};
+
+/**
+ * Check if a user has a permission within a space. Both the member's role
+ * and the user's tier must allow it, so a viewer can't share songs on any
+ * tier, and an editor on the free tier can't either.
+ */
+export function hasSpacePermission(
+  user: User | null,
+  membership: Membership | null | undefined,
+  permission: SpacePermission
+): boolean {
+  if (!user || !membership || membership.userId !== user.id) return false;
+  if (!ROLE_PERMISSIONS[membership.role].includes(permission)) return false;
+
+  const required = SPACE_PERMISSION_TIER_REQUIREMENTS[permission];
+  return !required || hasPermission(user, required);
+}
+
+/**
+ * Get all permissions a user has within a space
+ */
+export function getSpacePermissions(
+  user: User | null,
+  membership: Membership | null | undefined
+): SpacePermission[] {
+  if (!membership) return [];
+  return ROLE_PERMISSIONS[membership.role].filter(p => hasSpacePermission(user, membership, p));
+}
+
+// ============================================================================
+// Session Permissions
+// ============================================================================
+
+export type SessionPermission =
+  | 'transpose'
+  | 'change_song'
+  | 'edit_content'
+  | 'manage_roles'
+  | 'moderate_chat'
+  | 'end_session';
+
+const SESSION_ROLE_PERMISSIONS: Record<SessionRole, SessionPermission[]> = {
+  host: ['transpose', 'change_song', 'edit_content', 'manage_roles', 'moderate_chat', 'end_session'],
+  'co-host': ['transpose', 'change_song', 'edit_content'],
+  editor: ['edit_content'],
+  follower: [],
+};
+
+/**
+ * Check if a session role allows a change. Participants check this for
+ * changes they receive, not just the ones they make.
+ */
+export function hasSessionPermission(role: SessionRole, permission: SessionPermission): boolean {
+  return SESSION_ROLE_PERMISSIONS[role].includes(permission);
+}
+
 // ============================================================================
 // Tier Information
 // ============================================================================
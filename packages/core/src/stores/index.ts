@@ -8,6 +8,7 @@
  */
 
 import * as Y from 'yjs';
+import type { Arrangement, Song, SongSet, SpaceActivity } from '../models/index.js';
 
 // ============================================================================
 // Song Document
@@ -59,15 +60,132 @@ export const SongDoc = {
   getTags(doc: Y.Doc): Y.Array<string> {
     return doc.getArray('tags');
   },
+
+  /** Replace an arrangement's content with a minimal edit (see updateText) */
+  setArrangementContent(doc: Y.Doc, arrangementId: string, content: string): void {
+    doc.transact(() => {
+      updateText(this.getArrangementContent(doc, arrangementId), content);
+    });
+  },
+
+  /** Add or update an arrangement reference (everything but the content) */
+  setArrangement(doc: Y.Doc, arrangement: Arrangement): void {
+    const arrangements = this.getArrangements(doc);
+    doc.transact(() => {
+      let ref = arrangements.toArray().find((a) => a.get('id') === arrangement.id);
+      if (!ref) {
+        ref = new Y.Map<unknown>();
+        arrangements.push([ref]);
+        ref.set('id', arrangement.id);
+        ref.set('createdAt', new Date(arrangement.createdAt).toISOString());
+      }
+      ref.set('instrument', arrangement.instrument);
+      ref.set('tuning', arrangement.tuning ?? null);
+      ref.set('capo', arrangement.capo ?? null);
+    });
+  },
+
+  /** Remove an arrangement reference and its content */
+  removeArrangement(doc: Y.Doc, arrangementId: string): void {
+    const arrangements = this.getArrangements(doc);
+    doc.transact(() => {
+      const index = arrangements.toArray().findIndex((a) => a.get('id') === arrangementId);
+      if (index !== -1) arrangements.delete(index, 1);
+      this.getContents(doc).delete(arrangementId);
+    });
+  },
+
+  /** Set the metadata and tags from a song record */
+  setMetadata(doc: Y.Doc, song: Song): void {
+    const metadata = this.getMetadata(doc);
+    doc.transact(() => {
+      metadata.set('title', song.title);
+      metadata.set('artist', song.artist ?? null);
+      metadata.set('key', song.key ?? null);
+      metadata.set('tempo', song.tempo ?? null);
+      metadata.set('timeSignature', song.timeSignature ?? null);
+
+      const tags = this.getTags(doc);
+      if (tags.toArray().join('\n') !== song.tags.join('\n')) {
+        tags.delete(0, tags.length);
+        tags.push(song.tags);
+      }
+    });
+  },
+
+  /**
+   * Fill the document from the song's records. Arrangements already in the
+   * document keep their content, so this is safe to call on every open.
+   */
+  seed(doc: Y.Doc, song: Song, arrangements: Arrangement[]): void {
+    const contents = this.getContents(doc);
+    doc.transact(() => {
+      this.setMetadata(doc, song);
+      for (const arrangement of arrangements) {
+        this.setArrangement(doc, arrangement);
+        if (!contents.has(arrangement.id)) {
+          this.getArrangementContent(doc, arrangement.id).insert(0, arrangement.content);
+        }
+      }
+    });
+  },
+
+  /** Transpose state ('semitones'), persisted with the song and shared in sessions */
+  getTranspose(doc: Y.Doc): Y.Map<unknown> {
+    return doc.getMap('transpose');
+  },
 };
 
+/**
+ * Change a Y.Text to new content by replacing only the part that differs
+ * (between the common prefix and suffix), so concurrent edits elsewhere in
+ * the text merge character by character instead of one replacing the other.
+ */
+export function updateText(text: Y.Text, content: string): void {
+  const current = text.toString();
+  if (current === content) return;
+
+  let start = 0;
+  const maxStart = Math.min(current.length, content.length);
+  while (start < maxStart && current.charCodeAt(start) === content.charCodeAt(start)) {
+    start++;
+  }
+  let end = 0;
+  const maxEnd = maxStart - start;
+  while (
+    end < maxEnd &&
+    current.charCodeAt(current.length - 1 - end) === content.charCodeAt(content.length - 1 - end)
+  ) {
+    end++;
+  }
+
+  // Don't split surrogate pairs
+  if (start > 0 && isHighSurrogate(current.charCodeAt(start - 1))) start--;
+  if (end > 0 && isLowSurrogate(current.charCodeAt(current.length - end))) end--;
+
+  const deleteCount = current.length - start - end;
+  if (deleteCount > 0) text.delete(start, deleteCount);
+  const inserted = content.slice(start, content.length - end);
+  if (inserted) text.insert(start, inserted);
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
 // ============================================================================
 // Library Document
 // ============================================================================
 
 /**
  * Creates a library document for a user.
- * Contains lightweight references to songs, not full content.
+ * Contains lightweight references to songs, not full content, plus
+ * tombstones for deleted songs and collections so a device that missed a
+ * delete removes its copy instead of pushing it back.
  */
 export function createLibraryDoc(userId: string): Y.Doc {
   const doc = new Y.Doc({ guid: `library-${userId}` });
@@ -92,6 +210,89 @@ export const LibraryDoc = {
   getSyncState(doc: Y.Doc): Y.Map<unknown> {
     return doc.getMap('syncState');
   },
+
+  /** Map of setId → collection/setlist reference */
+  getCollections(doc: Y.Doc): Y.Map<Y.Map<unknown>> {
+    return doc.getMap('collections');
+  },
+
+  /** Map of deleted song, arrangement or collection ID → deletedAt (ms) */
+  getTombstones(doc: Y.Doc): Y.Map<number> {
+    return doc.getMap('tombstones');
+  },
+
+  isDeleted(doc: Y.Doc, id: string): boolean {
+    return this.getTombstones(doc).has(id);
+  },
+
+  /** Add or update a song reference; older versions don't overwrite newer ones */
+  putSong(doc: Y.Doc, song: Song): void {
+    if (this.isDeleted(doc, song.id)) return;
+
+    const songs = this.getSongs(doc);
+    const updatedAt = new Date(song.updatedAt).getTime();
+    const existing = songs.get(song.id);
+    if (existing && ((existing.get('updatedAt') as number) ?? 0) >= updatedAt) return;
+
+    doc.transact(() => {
+      const ref = existing ?? new Y.Map<unknown>();
+      if (!existing) songs.set(song.id, ref);
+      ref.set('title', song.title);
+      ref.set('artist', song.artist ?? null);
+      ref.set('key', song.key ?? null);
+      ref.set('tags', [...song.tags]);
+      ref.set('updatedAt', updatedAt);
+    });
+  },
+
+  /** Remove a song reference and leave a tombstone */
+  deleteSong(doc: Y.Doc, songId: string): void {
+    doc.transact(() => {
+      this.getSongs(doc).delete(songId);
+      this.getTombstones(doc).set(songId, Date.now());
+    });
+  },
+
+  /** Add or update a collection reference; older versions don't overwrite newer ones */
+  putCollection(doc: Y.Doc, set: SongSet): void {
+    if (this.isDeleted(doc, set.id)) return;
+
+    const collections = this.getCollections(doc);
+    const updatedAt = new Date(set.updatedAt).getTime();
+    const existing = collections.get(set.id);
+    if (existing && ((existing.get('updatedAt') as number) ?? 0) >= updatedAt) return;
+
+    doc.transact(() => {
+      const ref = existing ?? new Y.Map<unknown>();
+      if (!existing) collections.set(set.id, ref);
+      ref.set('name', set.name);
+      ref.set('isSetlist', set.isSetlist);
+      ref.set('songIds', [...set.songIds]);
+      ref.set('updatedAt', updatedAt);
+    });
+  },
+
+  /** Remove a collection reference and leave a tombstone */
+  deleteCollection(doc: Y.Doc, setId: string): void {
+    doc.transact(() => {
+      this.getCollections(doc).delete(setId);
+      this.getTombstones(doc).set(setId, Date.now());
+    });
+  },
+
+  /** Leave a tombstone for a deleted arrangement (songs hold no arrangement references) */
+  deleteArrangement(doc: Y.Doc, arrangementId: string): void {
+    this.getTombstones(doc).set(arrangementId, Date.now());
+  },
+
+  /** All tags used by songs in the library, sorted */
+  getAllTags(doc: Y.Doc): string[] {
+    const tags = new Set<string>();
+    for (const ref of this.getSongs(doc).values()) {
+      for (const tag of (ref.get('tags') as string[] | undefined) ?? []) tags.add(tag);
+    }
+    return [...tags].sort((a, b) => a.localeCompare(b));
+  },
 };
 
 // ============================================================================
@@ -100,7 +301,7 @@ export const LibraryDoc = {
 
 /**
  * Creates a space document for shared collections.
- * Synced among all members of the space.
+ * Synced among all members of the space, including its activity feed.
  */
 export function createSpaceDoc(spaceId: string): Y.Doc {
   const doc = new Y.Doc({ guid: `space-${spaceId}` });
@@ -130,8 +331,30 @@ export const SpaceDoc = {
   getSettings(doc: Y.Doc): Y.Map<unknown> {
     return doc.getMap('settings');
   },
+
+  /** Activity feed, oldest first. Entries are plain objects, createdAt in ms. */
+  getActivity(doc: Y.Doc): Y.Array<Record<string, unknown>> {
+    return doc.getArray('activity');
+  },
+
+  addActivity(doc: Y.Doc, activity: SpaceActivity): void {
+    const entry: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(activity)) {
+      if (value !== undefined) entry[key] = value;
+    }
+    entry.createdAt = new Date(activity.createdAt).getTime();
+    this.getActivity(doc).push([entry]);
+  },
+
+  getActivities(doc: Y.Doc): SpaceActivity[] {
+    return this.getActivity(doc).toArray().map(toSpaceActivity);
+  },
 };
 
+function toSpaceActivity(entry: Record<string, unknown>): SpaceActivity {
+  return { ...entry, createdAt: new Date(entry.createdAt as number) } as SpaceActivity;
+}
+
 // ============================================================================
 // Session Document (Ephemeral)
 // ============================================================================
@@ -174,12 +397,86 @@ export const SessionDoc = {
 // Utilities
 // ============================================================================
 
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
 /**
- * Generate a content hash for conflict detection
+ * SHA-256 of a string's UTF-8 bytes, as hex.
+ * Synchronous (unlike crypto.subtle.digest) so hashes can be computed
+ * inside the plain functions that create arrangements and snapshots.
+ */
+function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  // Message + 0x80 + zero padding + 64-bit length, in 64-byte blocks
+  const blockCount = Math.ceil((bytes.length + 9) / 64);
+  const data = new Uint8Array(blockCount * 64);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  const bitLength = bytes.length * 8;
+  view.setUint32(data.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(data.length - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let block = 0; block < blockCount; block++) {
+    for (let t = 0; t < 16; t++) w[t] = view.getUint32(block * 64 + t * 4);
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 64; t++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  return Array.from(h, (word) => word.toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Generate a content hash for conflict detection (SHA-256, hex)
  */
 export function computeContentHash(content: string): string {
-  // Simple hash for conflict detection
-  // In production, use crypto.subtle.digest
+  return sha256Hex(content);
+}
+
+/**
+ * 32-bit hash used for baseVersionHash/versionHash before SHA-256
+ */
+function computeLegacyContentHash(content: string): string {
   let hash = 0;
   for (let i = 0; i < content.length; i++) {
     const char = content.charCodeAt(i);
@@ -189,6 +486,17 @@ export function computeContentHash(content: string): string {
   return hash.toString(16);
 }
 
+/**
+ * Check content against a stored hash. Accepts SHA-256 hashes and the
+ * older 32-bit hashes still stored on existing arrangements and snapshots.
+ */
+export function matchesContentHash(content: string, hash: string | undefined): boolean {
+  if (!hash) return false;
+  return hash.length === 64
+    ? computeContentHash(content) === hash
+    : computeLegacyContentHash(content) === hash;
+}
+
 /**
  * Encode a Y.Doc state for transmission/storage
  */
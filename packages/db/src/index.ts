@@ -21,7 +21,9 @@ export {
   SnapshotRepository,
   SpaceRepository,
   MembershipRepository,
+  SpaceActivityRepository,
   SessionRepository,
+  SessionContentCacheRepository,
   ConflictRepository,
   CustomInstrumentRepository,
   LocalFingeringRepository,
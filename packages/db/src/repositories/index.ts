@@ -4,6 +4,7 @@
  * Provides typed, reusable data access patterns for all domain entities.
  */
 
+import Dexie from 'dexie';
 import type {
   Song,
   SongType,
@@ -12,7 +13,10 @@ import type {
   Space,
   Membership,
   Session,
+  SessionParticipant,
+  SessionContentCacheEntry,
   ConflictInfo,
+  ConflictResolution,
   Visibility,
   Instrument,
   CustomInstrument,
@@ -21,7 +25,11 @@ import type {
   SongSet,
   SongChordOverride,
   SavedSong,
+  SpacePermission,
+  SpaceActivity,
+  User,
 } from '@gigwidget/core';
+import { pruneSnapshots, DEFAULT_SNAPSHOT_RETENTION, hasSpacePermission } from '@gigwidget/core';
 import { getDatabase } from '../schema.js';
 
 // ============================================================================
@@ -74,7 +82,24 @@ export const SongRepository = {
     });
   },
 
-  async addToSpace(songId: string, spaceId: string): Promise<void> {
+  /**
+   * Whether a user's roles let them edit a song: in every space the song is
+   * shared in, their membership must allow edit_songs. Songs in no space
+   * are left to the tier checks.
+   */
+  async canEdit(user: User | null, song: Song): Promise<boolean> {
+    for (const spaceId of song.spaceIds) {
+      const membership = await MembershipRepository.get(user?.id ?? '', spaceId);
+      if (membership && !hasSpacePermission(user, membership, 'edit_songs')) return false;
+    }
+    return true;
+  },
+
+  /** Share a song into a space; the user's role there must allow sharing */
+  async addToSpace(songId: string, spaceId: string, user: User | null): Promise<void> {
+    if (!(await MembershipRepository.hasPermission(user, spaceId, 'share_songs'))) {
+      throw new Error("Your role in this space doesn't allow that");
+    }
     const song = await this.getById(songId);
     if (song && !song.spaceIds.includes(spaceId)) {
       await this.update(songId, { spaceIds: [...song.spaceIds, spaceId] });
@@ -124,8 +149,9 @@ export const ArrangementRepository = {
     return getDatabase().arrangements.get(id);
   },
 
+  /** Oldest first: the first arrangement is the song's default */
   async getBySong(songId: string): Promise<Arrangement[]> {
-    return getDatabase().arrangements.where({ songId }).toArray();
+    return getDatabase().arrangements.where({ songId }).sortBy('createdAt');
   },
 
   async getByInstrument(instrument: Instrument): Promise<Arrangement[]> {
@@ -169,16 +195,30 @@ export const SnapshotRepository = {
     return getDatabase().snapshots.add(snapshot);
   },
 
+  async update(id: string, updates: Partial<Pick<Snapshot, 'note'>>): Promise<number> {
+    return getDatabase().snapshots.update(id, updates);
+  },
+
   async delete(id: string): Promise<void> {
     await getDatabase().snapshots.delete(id);
   },
 
-  async pruneForArrangement(arrangementId: string, maxCount: number = 10): Promise<void> {
+  /** Unnamed snapshots kept per arrangement: the user's snapshotRetention preference */
+  async getRetention(userId: string): Promise<number> {
+    const prefs = await getDatabase().userPreferences.where('userId').equals(userId).first();
+    return prefs?.snapshotRetention || DEFAULT_SNAPSHOT_RETENTION;
+  },
+
+  /** Keep the newest `maxCount` unnamed snapshots; named snapshots are never pruned */
+  async pruneForArrangement(
+    arrangementId: string,
+    maxCount: number = DEFAULT_SNAPSHOT_RETENTION
+  ): Promise<void> {
     const snapshots = await this.getByArrangement(arrangementId);
-    if (snapshots.length > maxCount) {
-      const toDelete = snapshots.slice(maxCount);
-      const db = getDatabase();
-      await db.snapshots.bulkDelete(toDelete.map((s: Snapshot) => s.id));
+    const keep = new Set(pruneSnapshots(snapshots, maxCount).map((s: Snapshot) => s.id));
+    const toDelete = snapshots.filter((s: Snapshot) => !keep.has(s.id));
+    if (toDelete.length > 0) {
+      await getDatabase().snapshots.bulkDelete(toDelete.map((s: Snapshot) => s.id));
     }
   },
 };
@@ -213,8 +253,9 @@ export const SpaceRepository = {
 
   async delete(id: string): Promise<void> {
     const db = getDatabase();
-    await db.transaction('rw', [db.spaces, db.memberships], async () => {
+    await db.transaction('rw', [db.spaces, db.memberships, db.spaceActivities], async () => {
       await db.memberships.where({ spaceId: id }).delete();
+      await db.spaceActivities.where({ spaceId: id }).delete();
       await db.spaces.delete(id);
     });
   },
@@ -240,6 +281,14 @@ export const MembershipRepository = {
       .first();
   },
 
+  /**
+   * Check a user's permission in a space, from their local membership
+   */
+  async hasPermission(user: User | null, spaceId: string, permission: SpacePermission): Promise<boolean> {
+    if (!user) return false;
+    return hasSpacePermission(user, await this.get(user.id, spaceId), permission);
+  },
+
   async create(membership: Membership): Promise<string> {
     return getDatabase().memberships.add(membership);
   },
@@ -259,6 +308,31 @@ export const MembershipRepository = {
   },
 };
 
+// ============================================================================
+// Space Activity Repository
+// ============================================================================
+
+export const SpaceActivityRepository = {
+  /**
+   * Get a space's activity, newest first
+   */
+  async getBySpace(spaceId: string, limit?: number): Promise<SpaceActivity[]> {
+    const collection = getDatabase().spaceActivities
+      .where('[spaceId+createdAt]')
+      .between([spaceId, Dexie.minKey], [spaceId, Dexie.maxKey])
+      .reverse();
+    return limit ? collection.limit(limit).toArray() : collection.toArray();
+  },
+
+  /**
+   * Store activity entries. Entries already stored are overwritten with
+   * the same content, so the whole feed can be put again after a sync.
+   */
+  async putMany(activities: SpaceActivity[]): Promise<void> {
+    await getDatabase().spaceActivities.bulkPut(activities);
+  },
+};
+
 // ============================================================================
 // Session Repository
 // ============================================================================
@@ -283,6 +357,52 @@ export const SessionRepository = {
     return getDatabase().sessions.add(session);
   },
 
+  async update(id: string, updates: Partial<Session>): Promise<number> {
+    return getDatabase().sessions.update(id, updates);
+  },
+
+  /**
+   * Store the record of a session this device has left. Leaving the same
+   * session again adds the songs played since to the existing record.
+   */
+  async saveHistory(session: Session, participants: SessionParticipant[]): Promise<void> {
+    const db = getDatabase();
+    await db.transaction('rw', [db.sessions, db.sessionParticipants], async () => {
+      const existing = await db.sessions.get(session.id);
+      const earlier = existing?.playedSongs ?? [];
+      const lastPlayedAt = earlier.at(-1)?.playedAt.getTime() ?? 0;
+      const later = (session.playedSongs ?? []).filter((song) => song.playedAt.getTime() > lastPlayedAt);
+
+      await db.sessions.put({
+        ...existing,
+        ...session,
+        playedSongs: [...earlier, ...later],
+      });
+
+      const known = await db.sessionParticipants.where({ sessionId: session.id }).toArray();
+      await db.sessionParticipants.bulkPut(
+        participants.map((p) => ({
+          ...p,
+          joinedAt: known.find((k) => k.userId === p.userId)?.joinedAt ?? p.joinedAt,
+        }))
+      );
+    });
+  },
+
+  /**
+   * Sessions this device has left, most recent first
+   */
+  async getHistory(): Promise<Session[]> {
+    const sessions = await getDatabase().sessions
+      .filter((s: Session) => s.endedAt !== undefined)
+      .toArray();
+    return sessions.sort((a, b) => b.endedAt!.getTime() - a.endedAt!.getTime());
+  },
+
+  async getParticipants(sessionId: string): Promise<SessionParticipant[]> {
+    return getDatabase().sessionParticipants.where({ sessionId }).toArray();
+  },
+
   async delete(id: string): Promise<void> {
     const db = getDatabase();
     await db.transaction('rw', [db.sessions, db.sessionParticipants], async () => {
@@ -293,8 +413,9 @@ export const SessionRepository = {
 
   async cleanupExpired(): Promise<number> {
     const now = new Date();
+    // Session history is kept after the session expires
     const expired = await getDatabase().sessions
-      .filter((s: Session) => s.expiresAt !== undefined && s.expiresAt <= now)
+      .filter((s: Session) => s.expiresAt !== undefined && s.expiresAt <= now && !s.endedAt)
       .toArray();
 
     for (const session of expired) {
@@ -305,6 +426,52 @@ export const SessionRepository = {
   },
 };
 
+// ============================================================================
+// Session Content Cache Repository
+// ============================================================================
+
+export const SessionContentCacheRepository = {
+  async put(entry: SessionContentCacheEntry): Promise<void> {
+    await getDatabase().sessionContent.put(entry);
+  },
+
+  async get(sessionId: string, key: string): Promise<SessionContentCacheEntry | undefined> {
+    return getDatabase().sessionContent.get([sessionId, key]);
+  },
+
+  /**
+   * Cached content for a song from any session, newest first
+   */
+  async getBySong(songId: string): Promise<SessionContentCacheEntry[]> {
+    const entries = await getDatabase().sessionContent.where({ songId }).toArray();
+    return entries.sort((a, b) => b.cachedAt.getTime() - a.cachedAt.getTime());
+  },
+
+  async getBySession(sessionId: string): Promise<SessionContentCacheEntry[]> {
+    return getDatabase().sessionContent.where({ sessionId }).toArray();
+  },
+
+  /**
+   * Everything cached for the most recently cached session
+   */
+  async getLatestSession(): Promise<SessionContentCacheEntry[]> {
+    const entries = await getDatabase().sessionContent.toArray();
+    const latest = entries.reduce<SessionContentCacheEntry | undefined>(
+      (newest, e) => (!newest || e.cachedAt > newest.cachedAt ? e : newest),
+      undefined
+    );
+    return latest ? entries.filter((e) => e.sessionId === latest.sessionId) : [];
+  },
+
+  /**
+   * Drop content cached for any session but the given one, so only the
+   * current (or most recent) session's charts take up space.
+   */
+  async deleteOtherSessions(sessionId: string): Promise<number> {
+    return getDatabase().sessionContent.where('sessionId').notEqual(sessionId).delete();
+  },
+};
+
 // ============================================================================
 // Conflict Repository
 // ============================================================================
@@ -322,12 +489,23 @@ export const ConflictRepository = {
     return getDatabase().conflicts.where({ songId }).toArray();
   },
 
+  async getPendingByArrangement(arrangementId: string): Promise<ConflictInfo | undefined> {
+    return getDatabase()
+      .conflicts.where({ arrangementId })
+      .filter((c: ConflictInfo) => !c.resolved)
+      .first();
+  },
+
   async create(conflict: ConflictInfo): Promise<string> {
     return getDatabase().conflicts.add(conflict);
   },
 
-  async resolve(id: string, resolution: ConflictInfo['resolution']): Promise<void> {
-    await getDatabase().conflicts.update(id, { resolved: true, resolution });
+  async update(id: string, updates: Partial<ConflictInfo>): Promise<number> {
+    return getDatabase().conflicts.update(id, updates);
+  },
+
+  async resolve(id: string, resolution: ConflictResolution, mergedContent?: string): Promise<void> {
+    await getDatabase().conflicts.update(id, { resolved: true, resolution, mergedContent });
   },
 
   async delete(id: string): Promise<void> {
@@ -5,7 +5,7 @@
  * - User data and preferences
  * - Song metadata and arrangements
  * - Snapshots for version history
- * - Spaces and memberships
+ * - Spaces, memberships and space activity
  * - Sessions (ephemeral but cached for reconnection)
  * - Conflicts pending resolution
  *
@@ -13,7 +13,7 @@
  * not in this Dexie database.
  */
 
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
 import type {
   User,
   UserPreferences,
@@ -24,6 +24,7 @@ import type {
   Membership,
   Session,
   SessionParticipant,
+  SessionContentCacheEntry,
   SyncState,
   ConflictInfo,
   CustomInstrument,
@@ -32,6 +33,7 @@ import type {
   SongSet,
   SongChordOverride,
   SavedSong,
+  SpaceActivity,
 } from '@gigwidget/core';
 import {
   createAnonymousUser,
@@ -69,6 +71,12 @@ export class GigwidgetDatabase extends Dexie {
   // New tables (v4)
   savedSongs!: EntityTable<SavedSong, 'id'>;
 
+  // New tables (v5)
+  spaceActivities!: EntityTable<SpaceActivity, 'id'>;
+
+  // New tables (v6)
+  sessionContent!: Table<SessionContentCacheEntry, [string, string]>;
+
   constructor() {
     super('gigwidget');
 
@@ -173,6 +181,57 @@ export class GigwidgetDatabase extends Dexie {
       });
       console.log('[DB] Migrated existing songs to type="original"');
     });
+
+    // Version 5: Add space activity feed (synced through each SpaceDoc)
+    this.version(5).stores({
+      // Existing tables
+      users: 'id, supabaseId, createdAt',
+      userPreferences: 'userId',
+      songs: 'id, ownerId, title, artist, visibility, updatedAt, type, sourceId, *tags, *spaceIds',
+      arrangements: 'id, songId, instrument, updatedAt',
+      snapshots: 'id, songId, arrangementId, createdAt',
+      spaces: 'id, ownerId, type, name, createdAt',
+      memberships: 'id, userId, spaceId, role',
+      sessions: 'id, hostId, type, createdAt, expiresAt',
+      sessionParticipants: '[sessionId+userId], sessionId, userId',
+      syncStates: 'userId, syncStatus',
+      conflicts: 'id, songId, arrangementId, resolved, detectedAt',
+      customInstruments: 'id, userId, name, baseType, isPublic',
+      localFingerings: 'id, userId, chordName, instrumentId, [userId+chordName+instrumentId]',
+      songMetadata: 'songId',
+      songSets: 'id, userId, parentSetId, name, isSetlist',
+      songChordOverrides: 'id, userId, songId, [userId+songId+chordName]',
+      savedSongs: 'id, userId, sourceId, savedSongId, [userId+sourceId]',
+
+      // New table: Space activity feed, newest first per space
+      spaceActivities: 'id, spaceId, [spaceId+createdAt]',
+    });
+
+    // Version 6: Session content cache for joiners
+    this.version(6).stores({
+      // Existing tables
+      users: 'id, supabaseId, createdAt',
+      userPreferences: 'userId',
+      songs: 'id, ownerId, title, artist, visibility, updatedAt, type, sourceId, *tags, *spaceIds',
+      arrangements: 'id, songId, instrument, updatedAt',
+      snapshots: 'id, songId, arrangementId, createdAt',
+      spaces: 'id, ownerId, type, name, createdAt',
+      memberships: 'id, userId, spaceId, role',
+      sessions: 'id, hostId, type, createdAt, expiresAt',
+      sessionParticipants: '[sessionId+userId], sessionId, userId',
+      syncStates: 'userId, syncStatus',
+      conflicts: 'id, songId, arrangementId, resolved, detectedAt',
+      customInstruments: 'id, userId, name, baseType, isPublic',
+      localFingerings: 'id, userId, chordName, instrumentId, [userId+chordName+instrumentId]',
+      songMetadata: 'songId',
+      songSets: 'id, userId, parentSetId, name, isSetlist',
+      songChordOverrides: 'id, userId, songId, [userId+songId+chordName]',
+      savedSongs: 'id, userId, sourceId, savedSongId, [userId+sourceId]',
+      spaceActivities: 'id, spaceId, [spaceId+createdAt]',
+
+      // New table: Song content received in a session, one entry per content key
+      sessionContent: '[sessionId+key], sessionId, songId',
+    });
   }
 }
 
@@ -222,6 +281,8 @@ export async function clearDatabase(): Promise<void> {
     db.songSets,
     db.songChordOverrides,
     db.savedSongs,
+    db.spaceActivities,
+    db.sessionContent,
   ], async () => {
     await db.users.clear();
     await db.userPreferences.clear();
@@ -240,6 +301,8 @@ export async function clearDatabase(): Promise<void> {
     await db.songSets.clear();
     await db.songChordOverrides.clear();
     await db.savedSongs.clear();
+    await db.spaceActivities.clear();
+    await db.sessionContent.clear();
   });
 
   console.log('[DB] Database cleared');
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+/**
+ * Run the signaling server
+ *
+ * Usage: gigwidget-signaling [--port 4444] [--host 0.0.0.0]
+ *   [--room-ttl-hours 24] [--idle-room-ttl-minutes 5]
+ *   [--rate-limit 20] [--rate-burst 100]
+ *   [--max-connections-per-ip 50] [--trust-proxy]
+ *
+ * PORT and HOST environment variables are used when the flags are absent.
+ */
+
+import { parseArgs } from 'node:util';
+import { startSignalingServer } from './server.js';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: process.env.PORT ?? '4444' },
+    host: { type: 'string', default: process.env.HOST ?? '0.0.0.0' },
+    'room-ttl-hours': { type: 'string', default: '24' },
+    'idle-room-ttl-minutes': { type: 'string', default: '5' },
+    'rate-limit': { type: 'string', default: '20' },
+    'rate-burst': { type: 'string', default: '100' },
+    'max-connections-per-ip': { type: 'string', default: '50' },
+    'trust-proxy': { type: 'boolean', default: false },
+  },
+});
+
+function positiveNumber(name: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    console.error(`Invalid --${name}: ${value}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+const server = await startSignalingServer({
+  port: positiveNumber('port', values.port),
+  host: values.host,
+  roomTtlMs: positiveNumber('room-ttl-hours', values['room-ttl-hours']) * 60 * 60 * 1000,
+  idleRoomTtlMs: positiveNumber('idle-room-ttl-minutes', values['idle-room-ttl-minutes']) * 60 * 1000,
+  rateLimit: {
+    perSecond: positiveNumber('rate-limit', values['rate-limit']),
+    burst: positiveNumber('rate-burst', values['rate-burst']),
+  },
+  maxConnectionsPerIp: positiveNumber('max-connections-per-ip', values['max-connections-per-ip']),
+  trustProxy: values['trust-proxy'],
+});
+
+console.log(`Gigwidget signaling server listening on ws://${server.host}:${server.port}`);
+console.log(`Health check: http://${server.host}:${server.port}/health`);
+
+const shutdown = () => {
+  server.stop().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
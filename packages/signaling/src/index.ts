@@ -0,0 +1,24 @@
+/**
+ * @gigwidget/signaling
+ *
+ * Self-hostable WebRTC signaling server for Gigwidget sessions. Speaks the
+ * y-webrtc signaling protocol and the BootstrapSignaling extensions, so one
+ * server (on a Raspberry Pi at a gig, or in integration tests) handles both
+ * session sync and app bootstrap.
+ */
+
+export {
+  SignalingServer,
+  startSignalingServer,
+  type SignalingServerOptions,
+  type SignalingStats,
+} from './server.js';
+
+export { RateLimiter, type RateLimitOptions } from './rate-limiter.js';
+
+export {
+  parseClientMessage,
+  type ClientMessage,
+  type ServerMessage,
+  type SignalingErrorCode,
+} from './protocol.js';
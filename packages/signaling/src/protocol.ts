@@ -0,0 +1,65 @@
+/**
+ * Signaling Protocol
+ *
+ * JSON messages compatible with the y-webrtc signaling server, plus the
+ * extensions BootstrapSignaling and the join page rely on:
+ * - The server greets each connection with its client ID ('connected')
+ * - Forwarded publish messages carry the sender's ID ('from')
+ * - A publish with 'to' is delivered to that client only
+ * - Subscribing can carry a room password, also accepted as ?password= on
+ *   the connection URL
+ */
+
+export type ClientMessage =
+  | { type: 'subscribe'; topics: string[]; password?: string }
+  | { type: 'unsubscribe'; topics: string[] }
+  | { type: 'publish'; topic: string; to?: string; [key: string]: unknown }
+  | { type: 'ping' };
+
+export type ServerMessage =
+  | { type: 'connected'; clientId: string }
+  | { type: 'publish'; topic: string; from: string; clients: number; [key: string]: unknown }
+  | { type: 'pong' }
+  | { type: 'room-expired'; topic: string }
+  | { type: 'error'; code: SignalingErrorCode; message: string; topic?: string };
+
+export type SignalingErrorCode =
+  | 'invalid-message'
+  | 'invalid-password'
+  | 'not-subscribed'
+  | 'too-many-topics'
+  | 'rate-limited';
+
+/**
+ * Parse and validate a client message. Returns null when it isn't one.
+ */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof msg !== 'object' || msg === null) return null;
+
+  const { type } = msg as { type?: unknown };
+  switch (type) {
+    case 'subscribe':
+    case 'unsubscribe': {
+      const { topics, password } = msg as { topics?: unknown; password?: unknown };
+      if (!Array.isArray(topics) || !topics.every((t) => typeof t === 'string' && t.length > 0)) return null;
+      if (password !== undefined && typeof password !== 'string') return null;
+      return msg as ClientMessage;
+    }
+    case 'publish': {
+      const { topic, to } = msg as { topic?: unknown; to?: unknown };
+      if (typeof topic !== 'string' || topic.length === 0) return null;
+      if (to !== undefined && typeof to !== 'string') return null;
+      return msg as ClientMessage;
+    }
+    case 'ping':
+      return { type: 'ping' };
+    default:
+      return null;
+  }
+}
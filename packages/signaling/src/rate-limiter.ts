@@ -0,0 +1,38 @@
+/**
+ * Token bucket rate limiter
+ *
+ * Each connection gets a bucket that refills at a steady rate; a message
+ * costs one token. Bursts up to the bucket size are allowed, so a peer
+ * exchanging ICE candidates isn't throttled.
+ */
+
+export interface RateLimitOptions {
+  /** Tokens added per second */
+  perSecond: number;
+  /** Bucket size (largest burst) */
+  burst: number;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly options: RateLimitOptions) {
+    this.tokens = options.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Take a token. Returns false when the limit is exceeded.
+   */
+  take(): boolean {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.perSecond);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
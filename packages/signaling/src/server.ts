@@ -0,0 +1,442 @@
+/**
+ * Signaling Server
+ *
+ * Relays WebRTC signaling between peers in a room (topic). Peers never send
+ * session content through here, only offers, answers and ICE candidates
+ * (encrypted end-to-end by y-webrtc when the session has a password).
+ *
+ * Features:
+ * - y-webrtc signaling protocol, plus BootstrapSignaling's direct messages
+ * - Room passwords, set by whoever opens the room (see joinRoom)
+ * - Per-connection rate limits and per-IP connection limits
+ * - Room TTLs, so abandoned rooms and their passwords don't linger
+ * - GET /health for monitoring
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { RateLimiter, type RateLimitOptions } from './rate-limiter.js';
+import { parseClientMessage, type ServerMessage, type SignalingErrorCode } from './protocol.js';
+
+export interface SignalingServerOptions {
+  /** Port to listen on (default 4444, like y-webrtc's server) */
+  port?: number;
+  /** Interface to bind (default all) */
+  host?: string;
+  /** Longest a room may live, in ms (default 24 hours) */
+  roomTtlMs?: number;
+  /** How long an empty room keeps its password, in ms (default 5 minutes) */
+  idleRoomTtlMs?: number;
+  /** Messages each connection may send (default 20/s, bursts of 100) */
+  rateLimit?: RateLimitOptions;
+  /** Open connections allowed from one IP address (default 50) */
+  maxConnectionsPerIp?: number;
+  /** Rooms one connection may join (default 50) */
+  maxTopicsPerClient?: number;
+  /** Largest message accepted, in bytes (default 64 KB) */
+  maxPayloadBytes?: number;
+  /** Use X-Forwarded-For for client IPs (behind a reverse proxy) */
+  trustProxy?: boolean;
+}
+
+export interface SignalingStats {
+  connections: number;
+  rooms: number;
+  uptimeSeconds: number;
+}
+
+interface Client {
+  id: string;
+  ws: WebSocket;
+  ip: string;
+  topics: Set<string>;
+  limiter: RateLimiter;
+  /** Messages dropped by the rate limiter */
+  dropped: number;
+  alive: boolean;
+  /** Password from the connection URL (?password=), for clients like
+   *  y-webrtc that can't add one to their subscribe messages */
+  urlPassword?: string;
+}
+
+interface Room {
+  subscribers: Set<Client>;
+  /** SHA-256 of the room password, if it has one */
+  passwordHash?: Buffer;
+  createdAt: number;
+  emptySince: number | null;
+}
+
+const PING_INTERVAL_MS = 30000;
+const SWEEP_INTERVAL_MS = 30000;
+
+export class SignalingServer {
+  readonly port: number;
+  readonly host: string;
+
+  private readonly roomTtlMs: number;
+  private readonly idleRoomTtlMs: number;
+  private readonly rateLimit: RateLimitOptions;
+  private readonly maxConnectionsPerIp: number;
+  private readonly maxTopicsPerClient: number;
+  private readonly maxPayloadBytes: number;
+  private readonly trustProxy: boolean;
+
+  private readonly clients: Map<string, Client> = new Map();
+  private readonly rooms: Map<string, Room> = new Map();
+  private readonly connectionsPerIp: Map<string, number> = new Map();
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = 0;
+
+  constructor(options: SignalingServerOptions = {}) {
+    this.port = options.port ?? 4444;
+    this.host = options.host ?? '0.0.0.0';
+    this.roomTtlMs = options.roomTtlMs ?? 24 * 60 * 60 * 1000;
+    this.idleRoomTtlMs = options.idleRoomTtlMs ?? 5 * 60 * 1000;
+    this.rateLimit = options.rateLimit ?? { perSecond: 20, burst: 100 };
+    this.maxConnectionsPerIp = options.maxConnectionsPerIp ?? 50;
+    this.maxTopicsPerClient = options.maxTopicsPerClient ?? 50;
+    this.maxPayloadBytes = options.maxPayloadBytes ?? 64 * 1024;
+    this.trustProxy = options.trustProxy ?? false;
+  }
+
+  get stats(): SignalingStats {
+    return {
+      connections: this.clients.size,
+      rooms: this.rooms.size,
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+    };
+  }
+
+  /**
+   * Start listening for HTTP and WebSocket connections
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = createServer((req, res) => this.handleHttp(req, res));
+    const wss = new WebSocketServer({ noServer: true, maxPayload: this.maxPayloadBytes });
+
+    server.on('upgrade', (req, socket, head) => {
+      const ip = this.getClientIp(req);
+      if ((this.connectionsPerIp.get(ip) ?? 0) >= this.maxConnectionsPerIp) {
+        socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, req, ip));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Drop connections that stop answering pings
+    this.pingTimer = setInterval(() => {
+      for (const client of this.clients.values()) {
+        if (!client.alive) {
+          client.ws.terminate();
+          continue;
+        }
+        client.alive = false;
+        client.ws.ping();
+      }
+    }, PING_INTERVAL_MS);
+
+    this.sweepTimer = setInterval(() => this.sweepRooms(), SWEEP_INTERVAL_MS);
+
+    this.server = server;
+    this.wss = wss;
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    for (const client of this.clients.values()) {
+      client.ws.terminate();
+    }
+    this.wss?.close();
+    this.wss = null;
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    this.clients.clear();
+    this.rooms.clear();
+    this.connectionsPerIp.clear();
+  }
+
+  // ============================================================================
+  // HTTP
+  // ============================================================================
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && path === '/health') {
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(JSON.stringify({ status: 'ok', ...this.stats }));
+      return;
+    }
+
+    // Plain-text root, like y-webrtc's server, for hosts that probe "/"
+    if (req.method === 'GET' && path === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('okay');
+      return;
+    }
+
+    res.writeHead(404).end();
+  }
+
+  private getClientIp(req: IncomingMessage): string {
+    if (this.trustProxy) {
+      const forwarded = req.headers['x-forwarded-for'];
+      const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+      if (first) return first;
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+  }
+
+  // ============================================================================
+  // Connections
+  // ============================================================================
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage, ip: string): void {
+    const urlPassword = new URL(req.url ?? '/', 'http://localhost').searchParams.get('password') ?? undefined;
+    const client: Client = {
+      id: randomUUID(),
+      ws,
+      ip,
+      topics: new Set(),
+      limiter: new RateLimiter(this.rateLimit),
+      dropped: 0,
+      alive: true,
+      urlPassword,
+    };
+
+    this.clients.set(client.id, client);
+    this.connectionsPerIp.set(ip, (this.connectionsPerIp.get(ip) ?? 0) + 1);
+
+    ws.on('pong', () => {
+      client.alive = true;
+    });
+    ws.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) return;
+      this.handleMessage(client, data.toString());
+    });
+    ws.on('close', () => this.handleClose(client));
+    ws.on('error', (error) => console.error('[Signaling] Connection error:', error));
+
+    this.send(client, { type: 'connected', clientId: client.id });
+  }
+
+  private handleClose(client: Client): void {
+    if (!this.clients.delete(client.id)) return;
+
+    for (const topic of client.topics) {
+      this.leaveRoom(client, topic);
+    }
+
+    const count = (this.connectionsPerIp.get(client.ip) ?? 1) - 1;
+    if (count > 0) {
+      this.connectionsPerIp.set(client.ip, count);
+    } else {
+      this.connectionsPerIp.delete(client.ip);
+    }
+  }
+
+  private handleMessage(client: Client, raw: string): void {
+    if (!client.limiter.take()) {
+      client.dropped++;
+      // Tell the client once per burst, and cut off clients that keep going
+      if (client.dropped === 1) {
+        this.sendError(client, 'rate-limited', 'Too many messages, slow down');
+      }
+      if (client.dropped > this.rateLimit.burst) {
+        client.ws.close(1008, 'Rate limit exceeded');
+      }
+      return;
+    }
+    client.dropped = 0;
+
+    const msg = parseClientMessage(raw);
+    if (!msg) {
+      this.sendError(client, 'invalid-message', 'Invalid message');
+      return;
+    }
+
+    switch (msg.type) {
+      case 'subscribe':
+        for (const topic of msg.topics) {
+          this.joinRoom(client, topic, msg.password ?? client.urlPassword);
+        }
+        break;
+      case 'unsubscribe':
+        for (const topic of msg.topics) {
+          if (client.topics.has(topic)) this.leaveRoom(client, topic);
+        }
+        break;
+      case 'publish':
+        this.publish(client, msg.topic, msg);
+        break;
+      case 'ping':
+        this.send(client, { type: 'pong' });
+        break;
+    }
+  }
+
+  // ============================================================================
+  // Rooms
+  // ============================================================================
+
+  private joinRoom(client: Client, topic: string, password: string | undefined): void {
+    if (client.topics.has(topic)) return;
+
+    if (client.topics.size >= this.maxTopicsPerClient) {
+      this.sendError(client, 'too-many-topics', 'Too many rooms on one connection', topic);
+      return;
+    }
+
+    let room = this.rooms.get(topic);
+    if (!room) {
+      // Whoever opens the room sets its password, and it can't be changed
+      // until the room expires. Gigwidget hosts open their session's room
+      // when they create it, before showing the QR code; the topic is the
+      // random session ID, so anyone else who could open it first got the
+      // QR code and with it the password. A room opened without one stays
+      // open to everyone.
+      room = {
+        subscribers: new Set(),
+        passwordHash: password ? hashPassword(password) : undefined,
+        createdAt: Date.now(),
+        emptySince: null,
+      };
+      this.rooms.set(topic, room);
+    } else if (room.passwordHash) {
+      const hash = password ? hashPassword(password) : undefined;
+      if (!hash || !timingSafeEqual(hash, room.passwordHash)) {
+        this.sendError(client, 'invalid-password', 'Wrong room password', topic);
+        return;
+      }
+    }
+
+    room.subscribers.add(client);
+    room.emptySince = null;
+    client.topics.add(topic);
+  }
+
+  private leaveRoom(client: Client, topic: string): void {
+    client.topics.delete(topic);
+
+    const room = this.rooms.get(topic);
+    if (!room) return;
+    room.subscribers.delete(client);
+
+    // Keep the room (and its password) briefly, so peers can reconnect
+    if (room.subscribers.size === 0) {
+      room.emptySince = Date.now();
+    }
+  }
+
+  private publish(client: Client, topic: string, msg: { to?: string; [key: string]: unknown }): void {
+    const room = this.rooms.get(topic);
+    if (!room || !client.topics.has(topic)) {
+      this.sendError(client, 'not-subscribed', 'Subscribe to a room before publishing to it', topic);
+      return;
+    }
+
+    const forwarded: ServerMessage = {
+      ...msg,
+      type: 'publish',
+      topic,
+      from: client.id,
+      clients: room.subscribers.size,
+    };
+
+    if (msg.to) {
+      const target = this.clients.get(msg.to);
+      if (target && room.subscribers.has(target)) {
+        this.send(target, forwarded);
+      }
+      return;
+    }
+
+    for (const subscriber of room.subscribers) {
+      this.send(subscriber, forwarded);
+    }
+  }
+
+  /**
+   * Close rooms past their TTL and forget rooms that have sat empty
+   */
+  private sweepRooms(): void {
+    const now = Date.now();
+
+    for (const [topic, room] of this.rooms) {
+      if (now - room.createdAt > this.roomTtlMs) {
+        for (const subscriber of room.subscribers) {
+          subscriber.topics.delete(topic);
+          this.send(subscriber, { type: 'room-expired', topic });
+        }
+        this.rooms.delete(topic);
+      } else if (room.emptySince !== null && now - room.emptySince > this.idleRoomTtlMs) {
+        this.rooms.delete(topic);
+      }
+    }
+  }
+
+  // ============================================================================
+  // Sending
+  // ============================================================================
+
+  private send(client: Client, msg: ServerMessage): void {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    try {
+      client.ws.send(JSON.stringify(msg));
+    } catch (error) {
+      console.error('[Signaling] Failed to send:', error);
+      client.ws.close();
+    }
+  }
+
+  private sendError(client: Client, code: SignalingErrorCode, message: string, topic?: string): void {
+    this.send(client, { type: 'error', code, message, topic });
+  }
+}
+
+/**
+ * Create and start a signaling server
+ */
+export async function startSignalingServer(options: SignalingServerOptions = {}): Promise<SignalingServer> {
+  const server = new SignalingServer(options);
+  await server.start();
+  return server;
+}
+
+function hashPassword(password: string): Buffer {
+  return createHash('sha256').update(password).digest();
+}
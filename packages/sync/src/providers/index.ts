@@ -5,6 +5,7 @@
  * - Supabase: Cloud sync through Supabase Realtime and Storage
  * - WebRTC: Peer-to-peer sync over WebRTC (via y-webrtc)
  * - Bluetooth: Offline P2P sync over Bluetooth LE
+ * - Local network: Sync through a WebSocket relay on the host's machine
  */
 
 // Base
@@ -18,9 +19,11 @@ export {
   type BluetoothPeer,
   isBluetoothAvailable,
 } from './y-bluetooth.js';
+export { LocalNetworkProvider, type LocalNetworkProviderOptions } from './y-local-network.js';
+export { DEFAULT_LOCAL_RELAY_PORT, type LocalRelayInfo } from './local-network-protocol.js';
 
 // Re-export y-webrtc for convenience
 export { WebrtcProvider } from 'y-webrtc';
 
 // Re-export y-indexeddb for local persistence
-export { IndexeddbPersistence } from 'y-indexeddb';
+export { IndexeddbPersistence, clearDocument } from 'y-indexeddb';
@@ -0,0 +1,32 @@
+/**
+ * Local Network Relay Protocol
+ *
+ * Wire format shared by LocalNetworkProvider and the relay the host runs.
+ * Messages follow the y-websocket layout: a varuint message type followed
+ * by a y-protocols sync or awareness payload.
+ *
+ * Clients connect to ws://<address>:<port>/<sessionId>?token=<token>.
+ */
+
+/** Default port for the local network relay */
+export const DEFAULT_LOCAL_RELAY_PORT = 4450;
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+/** Close code sent when the token doesn't match the session */
+export const CLOSE_INVALID_TOKEN = 4401;
+/** Close code sent when no host has opened the session on this relay */
+export const CLOSE_UNKNOWN_SESSION = 4404;
+
+/**
+ * Relay details served from GET /info, used by the host to fill in
+ * the session's connection info
+ */
+export interface LocalRelayInfo {
+  /** LAN addresses joiners can reach the relay on */
+  addresses: string[];
+  port: number;
+  /** Whether the relay serves the web app over http for joiners to open */
+  servesApp?: boolean;
+}
@@ -0,0 +1,289 @@
+/**
+ * Local Network Provider for Yjs
+ *
+ * Syncs a Yjs document through a WebSocket relay running on the host's
+ * machine, so sessions work over venue Wi-Fi without internet access.
+ *
+ * Architecture:
+ * - The host runs the relay (see @gigwidget/sync/relay) and connects to it
+ *   over localhost, opening the session with its token
+ * - Joiners connect to the relay's LAN addresses with the same token
+ * - The relay keeps a copy of the document, so joiners stay in sync even
+ *   while the host reconnects
+ *
+ * Note: browsers block ws:// connections from https:// pages, so joiners
+ * need the app served over http on the LAN or a native shell.
+ */
+
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import { Observable } from './observable.js';
+import {
+  MESSAGE_SYNC,
+  MESSAGE_AWARENESS,
+  CLOSE_INVALID_TOKEN,
+  CLOSE_UNKNOWN_SESSION,
+} from './local-network-protocol.js';
+
+// Reconnect limits
+const CONNECT_TIMEOUT_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+export interface LocalNetworkProviderOptions {
+  /** Relay URLs to try in order, e.g. ws://192.168.1.20:4450 */
+  urls: string[];
+  /** Session ID (the relay room) */
+  sessionId: string;
+  /** Token from the session's connection info */
+  token: string;
+}
+
+export class LocalNetworkProvider extends Observable {
+  readonly doc: Y.Doc;
+  readonly awareness: awarenessProtocol.Awareness;
+  readonly sessionId: string;
+
+  private readonly urls: string[];
+  private readonly token: string;
+
+  private ws: WebSocket | null = null;
+  private urlIndex = 0;
+  private failedAttempts = 0;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldConnect = false;
+  private _connected = false;
+  private _synced = false;
+
+  constructor(doc: Y.Doc, options: LocalNetworkProviderOptions) {
+    super();
+    if (options.urls.length === 0) {
+      throw new Error('No relay addresses to connect to');
+    }
+
+    this.doc = doc;
+    this.awareness = new awarenessProtocol.Awareness(doc);
+    this.sessionId = options.sessionId;
+    this.urls = options.urls;
+    this.token = options.token;
+
+    // Bind methods
+    this.onDocUpdate = this.onDocUpdate.bind(this);
+    this.onAwarenessUpdate = this.onAwarenessUpdate.bind(this);
+
+    this.doc.on('update', this.onDocUpdate);
+    this.awareness.on('update', this.onAwarenessUpdate);
+  }
+
+  get connected(): boolean {
+    return this._connected;
+  }
+
+  get synced(): boolean {
+    return this._synced;
+  }
+
+  /**
+   * Connect to the relay, trying each address until one answers.
+   * Reconnects with backoff until disconnect() is called.
+   */
+  connect(): void {
+    this.shouldConnect = true;
+    if (!this.ws) this.openSocket();
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.clearTimers();
+
+    if (this.ws) {
+      // Let the others know we're gone before closing
+      if (this._connected) {
+        awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'disconnect');
+      }
+      this.ws.close();
+      this.ws = null;
+    }
+    this.setConnected(false);
+  }
+
+  private openSocket(): void {
+    const relayUrl = this.urls[this.urlIndex];
+    const ws = new WebSocket(
+      `${relayUrl}/${encodeURIComponent(this.sessionId)}?token=${encodeURIComponent(this.token)}`
+    );
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
+
+    // Give up on an unreachable address and try the next one
+    this.connectTimer = setTimeout(() => {
+      if (ws.readyState === WebSocket.CONNECTING) ws.close();
+    }, CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      this.clearTimers();
+      this.failedAttempts = 0;
+      this.setConnected(true);
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, this.doc);
+      ws.send(encoding.toUint8Array(encoder));
+
+      if (this.awareness.getLocalState() !== null) {
+        this.send(this.encodeAwareness([this.doc.clientID]));
+      }
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      this.handleMessage(new Uint8Array(event.data as ArrayBuffer));
+    };
+
+    ws.onerror = () => {
+      // Always followed by close, which handles reconnecting
+      this.emit('connection-error', [{ url: relayUrl }]);
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearTimers();
+
+      // Other peers' presence is unknown until we reconnect
+      const others = Array.from(this.awareness.getStates().keys()).filter((id) => id !== this.doc.clientID);
+      awarenessProtocol.removeAwarenessStates(this.awareness, others, this);
+
+      const wasConnected = this._connected;
+      this.setConnected(false);
+
+      if (event.code === CLOSE_INVALID_TOKEN || event.code === CLOSE_UNKNOWN_SESSION) {
+        this.shouldConnect = false;
+        this.emit('error', [
+          new Error(
+            event.code === CLOSE_INVALID_TOKEN
+              ? 'The session token was rejected by the host'
+              : 'The host is not running this session'
+          ),
+        ]);
+        return;
+      }
+
+      if (!wasConnected) {
+        this.urlIndex = (this.urlIndex + 1) % this.urls.length;
+        this.failedAttempts++;
+      }
+
+      if (this.shouldConnect) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    // Try every address once before backing off
+    const round = Math.floor(this.failedAttempts / this.urls.length);
+    const delay = this.failedAttempts % this.urls.length === 0
+      ? Math.min(1000 * 2 ** round, MAX_RECONNECT_DELAY_MS)
+      : 0;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.shouldConnect && !this.ws) this.openSocket();
+    }, delay);
+  }
+
+  /**
+   * Handle a sync or awareness message from the relay
+   */
+  private handleMessage(data: Uint8Array): void {
+    try {
+      const decoder = decoding.createDecoder(data);
+      const encoder = encoding.createEncoder();
+
+      switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC: {
+          encoding.writeVarUint(encoder, MESSAGE_SYNC);
+          const syncType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+          if (syncType === syncProtocol.messageYjsSyncStep2 && !this._synced) {
+            this._synced = true;
+            this.emit('synced', [{ synced: true }]);
+          }
+          // Reply to a sync step 1 with our missing updates
+          if (encoding.length(encoder) > 1) {
+            this.send(encoding.toUint8Array(encoder));
+          }
+          break;
+        }
+        case MESSAGE_AWARENESS:
+          awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), this);
+          break;
+      }
+    } catch (error) {
+      console.error('Failed to handle relay message:', error);
+    }
+  }
+
+  /**
+   * Handle local document updates - send to the relay
+   */
+  private onDocUpdate(update: Uint8Array, origin: unknown): void {
+    // Don't echo updates from the relay
+    if (origin === this) return;
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    this.send(encoding.toUint8Array(encoder));
+  }
+
+  private onAwarenessUpdate(
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ): void {
+    if (origin === this) return;
+    this.send(this.encodeAwareness([...added, ...updated, ...removed]));
+  }
+
+  private encodeAwareness(clients: number[]): Uint8Array {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients));
+    return encoding.toUint8Array(encoder);
+  }
+
+  private send(message: Uint8Array): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(message);
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this._connected === connected) return;
+    this._connected = connected;
+    if (!connected) this._synced = false;
+    this.emit('status', [{ connected }]);
+  }
+
+  private clearTimers(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  destroy(): void {
+    this.disconnect();
+    this.doc.off('update', this.onDocUpdate);
+    this.awareness.off('update', this.onAwarenessUpdate);
+    this.awareness.destroy();
+    super.destroy();
+  }
+}
@@ -5,7 +5,8 @@
  *
  * Strategy:
  * 1. Store full Yjs state vectors in Supabase Storage (blob)
- * 2. Use Realtime channels for incremental updates
+ * 2. Use Realtime channels for incremental updates, private by default so
+ *    policies on realtime.messages decide who may join
  * 3. On reconnect, merge state vectors for eventual consistency
  */
 
@@ -22,6 +23,8 @@ export interface SupabaseProviderOptions {
   bucket?: string;
   /** Auto-save interval in ms (0 to disable) */
   autoSaveInterval?: number;
+  /** Join the channel `yjs:<roomName>` as a private channel (default true) */
+  privateChannel?: boolean;
 }
 
 export class SupabaseProvider extends Observable {
@@ -35,6 +38,7 @@ export class SupabaseProvider extends Observable {
   private readonly supabase: SupabaseClient;
   private readonly bucket: string;
   private readonly autoSaveInterval: number;
+  private readonly privateChannel: boolean;
 
   constructor(doc: Y.Doc, options: SupabaseProviderOptions) {
     super();
@@ -43,6 +47,7 @@ export class SupabaseProvider extends Observable {
     this.roomName = options.roomName;
     this.bucket = options.bucket ?? 'yjs-states';
     this.autoSaveInterval = options.autoSaveInterval ?? 30000;
+    this.privateChannel = options.privateChannel ?? true;
 
     // Bind methods
     this.onDocUpdate = this.onDocUpdate.bind(this);
@@ -65,7 +70,7 @@ export class SupabaseProvider extends Observable {
 
     // Join realtime channel
     this.channel = this.supabase
-      .channel(`yjs:${this.roomName}`)
+      .channel(`yjs:${this.roomName}`, { config: { private: this.privateChannel } })
       .on('broadcast', { event: 'yjs-update' }, this.onBroadcast)
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') {
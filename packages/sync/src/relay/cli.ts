@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Run the local network relay
+ *
+ * Usage: gigwidget-relay [--port 4450] [--host 0.0.0.0] [--app apps/web/build] [--origin https://gigwidget.app]
+ *
+ * --app serves the built web app over http, so joiners' browsers can
+ * connect (a page loaded over https can't open ws:// to the LAN).
+ * --origin (repeatable) sets which app origins may read /info.
+ */
+
+import { parseArgs } from 'node:util';
+import { startLocalNetworkRelay } from './local-network-relay.js';
+import { DEFAULT_LOCAL_RELAY_PORT } from '../providers/local-network-protocol.js';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: String(DEFAULT_LOCAL_RELAY_PORT) },
+    host: { type: 'string', default: '0.0.0.0' },
+    app: { type: 'string' },
+    origin: { type: 'string', multiple: true },
+  },
+});
+
+const port = Number(values.port);
+if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+  console.error(`Invalid port: ${values.port}`);
+  process.exit(1);
+}
+
+const relay = await startLocalNetworkRelay({
+  port,
+  host: values.host,
+  appDir: values.app,
+  allowedOrigins: values.origin,
+});
+
+console.log(`Gigwidget relay listening on port ${relay.port}`);
+for (const address of relay.addresses) {
+  console.log(`  ${relay.appDir ? 'http' : 'ws'}://${address}:${relay.port}`);
+}
+if (!relay.appDir) {
+  console.log('Not serving the app (--app): joiners using a browser will not be able to connect');
+}
+
+const shutdown = () => {
+  relay.stop().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,14 @@
+/**
+ * Local network relay (Node only)
+ *
+ * Kept out of the main entry point so browser bundles don't pull in ws.
+ */
+
+export {
+  LocalNetworkRelay,
+  startLocalNetworkRelay,
+  DEFAULT_APP_ORIGIN,
+  type LocalNetworkRelayOptions,
+} from './local-network-relay.js';
+
+export { DEFAULT_LOCAL_RELAY_PORT, type LocalRelayInfo } from '../providers/local-network-protocol.js';
@@ -0,0 +1,406 @@
+/**
+ * Local Network Relay
+ *
+ * A small WebSocket server the session host runs on their machine (from
+ * Node or as a Tauri sidecar). Each session is a room holding a Y.Doc and
+ * its awareness; the relay answers y-protocols sync messages and forwards
+ * updates to everyone in the room, so joiners on the same Wi-Fi can sync
+ * without internet access.
+ *
+ * Auth:
+ * - A room is opened by a connection from this machine (loopback), which
+ *   sets the room's token
+ * - Every other connection must present the same token
+ *
+ * Browsers block ws:// from a page loaded over https (mixed content), so
+ * joiners can't reach the relay from the hosted app. With appDir set, the
+ * relay also serves the built web app over http; joiners open it from the
+ * relay's LAN address and connect from there. The host's own page may stay
+ * on https, since browsers allow ws://localhost from it.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { networkInterfaces } from 'node:os';
+import { timingSafeEqual } from 'node:crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import {
+  DEFAULT_LOCAL_RELAY_PORT,
+  MESSAGE_SYNC,
+  MESSAGE_AWARENESS,
+  CLOSE_INVALID_TOKEN,
+  CLOSE_UNKNOWN_SESSION,
+  type LocalRelayInfo,
+} from '../providers/local-network-protocol.js';
+
+const PING_INTERVAL_MS = 30000;
+
+/** Origin of the hosted app, the only page allowed to read /info by default */
+export const DEFAULT_APP_ORIGIN = 'https://gigwidget.app';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+};
+
+export interface LocalNetworkRelayOptions {
+  /** Port to listen on */
+  port?: number;
+  /** Interface to bind (defaults to all, so the LAN can reach it) */
+  host?: string;
+  /** Built web app (apps/web/build) to serve over http for LAN joiners */
+  appDir?: string;
+  /** Page origins allowed to read /info (defaults to DEFAULT_APP_ORIGIN) */
+  allowedOrigins?: string[];
+}
+
+interface Room {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  token: string;
+  /** Awareness client IDs each connection controls */
+  conns: Map<WebSocket, Set<number>>;
+}
+
+export class LocalNetworkRelay {
+  readonly port: number;
+  readonly host: string;
+  readonly appDir: string | null;
+  readonly allowedOrigins: string[];
+
+  private readonly rooms: Map<string, Room> = new Map();
+  private readonly alive: WeakSet<WebSocket> = new WeakSet();
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: LocalNetworkRelayOptions = {}) {
+    this.port = options.port ?? DEFAULT_LOCAL_RELAY_PORT;
+    this.host = options.host ?? '0.0.0.0';
+    this.appDir = options.appDir ? resolve(options.appDir) : null;
+    this.allowedOrigins = options.allowedOrigins ?? [DEFAULT_APP_ORIGIN];
+  }
+
+  /**
+   * LAN addresses joiners can use to reach this machine
+   */
+  get addresses(): string[] {
+    const addresses: string[] = [];
+    for (const entries of Object.values(networkInterfaces())) {
+      for (const entry of entries ?? []) {
+        if (entry.family === 'IPv4' && !entry.internal) {
+          addresses.push(entry.address);
+        }
+      }
+    }
+    return addresses;
+  }
+
+  get info(): LocalRelayInfo {
+    return { addresses: this.addresses, port: this.port, servesApp: this.appDir !== null };
+  }
+
+  /**
+   * Start listening for HTTP (GET /info, and the app when appDir is set)
+   * and WebSocket connections
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = createServer((req, res) => this.handleHttp(req, res));
+    const wss = new WebSocketServer({ server });
+    wss.on('connection', (ws, req) => this.handleConnection(ws, req));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Drop connections that stop answering pings (e.g. phones leaving the Wi-Fi)
+    this.pingTimer = setInterval(() => {
+      for (const ws of wss.clients) {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          continue;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      }
+    }, PING_INTERVAL_MS);
+
+    this.server = server;
+    this.wss = wss;
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    for (const ws of this.wss?.clients ?? []) {
+      ws.terminate();
+    }
+    this.wss?.close();
+    this.wss = null;
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    for (const roomId of [...this.rooms.keys()]) {
+      this.closeRoom(roomId);
+    }
+  }
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    // The host app fetches /info from a browser page on another origin. Only
+    // the app may read it: other pages shouldn't learn the host's addresses.
+    const origin = req.headers.origin;
+    if (origin && this.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Private-Network', 'true');
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (req.method === 'GET' && path === '/info') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(this.info));
+      return;
+    }
+
+    if (req.method === 'GET' && this.appDir) {
+      this.serveApp(this.appDir, path, res).catch((error) => {
+        console.error('[Relay] Failed to serve app file:', error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+      return;
+    }
+
+    res.writeHead(404).end();
+  }
+
+  /**
+   * Serve a file of the built app. Paths that aren't files get index.html,
+   * the single-page app's fallback.
+   */
+  private async serveApp(appDir: string, path: string, res: ServerResponse): Promise<void> {
+    let file = resolve(join(appDir, decodeURIComponent(path)));
+    if (file !== appDir && !file.startsWith(appDir + sep)) {
+      res.writeHead(403).end();
+      return;
+    }
+
+    const found = await stat(file).catch(() => null);
+    if (!found?.isFile()) {
+      const index = join(file, 'index.html');
+      file = (await stat(index).catch(() => null))?.isFile() ? index : join(appDir, 'index.html');
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream',
+      'Cache-Control': 'no-cache',
+    });
+    createReadStream(file).pipe(res);
+  }
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const roomId = decodeURIComponent(url.pathname.slice(1));
+    const token = url.searchParams.get('token') ?? '';
+
+    if (!roomId || !token) {
+      ws.close(CLOSE_INVALID_TOKEN, 'Missing session or token');
+      return;
+    }
+
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      // Only the host's own device may open a session
+      if (!isLoopback(req.socket.remoteAddress)) {
+        ws.close(CLOSE_UNKNOWN_SESSION, 'Unknown session');
+        return;
+      }
+      room = this.openRoom(roomId, token);
+    } else if (!tokensMatch(room.token, token)) {
+      ws.close(CLOSE_INVALID_TOKEN, 'Invalid token');
+      return;
+    }
+
+    this.joinRoom(room, roomId, ws);
+  }
+
+  private openRoom(roomId: string, token: string): Room {
+    const doc = new Y.Doc({ gc: true });
+    const awareness = new awarenessProtocol.Awareness(doc);
+    // The relay itself isn't a participant
+    awareness.setLocalState(null);
+
+    const room: Room = { doc, awareness, token, conns: new Map() };
+
+    doc.on('update', (update: Uint8Array) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      this.broadcast(room, encoding.toUint8Array(encoder));
+    });
+
+    awareness.on(
+      'update',
+      (
+        { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+        origin: unknown
+      ) => {
+        // Track which clients each connection speaks for, so they can be
+        // removed when it drops
+        const controlled = origin instanceof WebSocket ? room.conns.get(origin) : undefined;
+        if (controlled) {
+          added.forEach((id) => controlled.add(id));
+          removed.forEach((id) => controlled.delete(id));
+        }
+
+        const changed = [...added, ...updated, ...removed];
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+        this.broadcast(room, encoding.toUint8Array(encoder));
+      }
+    );
+
+    this.rooms.set(roomId, room);
+    console.log(`[Relay] Session opened: ${roomId}`);
+    return room;
+  }
+
+  private joinRoom(room: Room, roomId: string, ws: WebSocket): void {
+    room.conns.set(ws, new Set());
+    this.alive.add(ws);
+
+    ws.on('pong', () => this.alive.add(ws));
+    ws.on('message', (data: RawData) => this.handleMessage(room, ws, toUint8Array(data)));
+    ws.on('close', () => this.leaveRoom(room, roomId, ws));
+    ws.on('error', (error) => console.error('[Relay] Connection error:', error));
+
+    // Start sync and share who's already here
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    ws.send(encoding.toUint8Array(encoder));
+
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+        awarenessEncoder,
+        awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys()))
+      );
+      ws.send(encoding.toUint8Array(awarenessEncoder));
+    }
+  }
+
+  private leaveRoom(room: Room, roomId: string, ws: WebSocket): void {
+    const controlled = room.conns.get(ws);
+    if (!controlled) return;
+    room.conns.delete(ws);
+    awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null);
+
+    if (room.conns.size === 0) {
+      this.closeRoom(roomId);
+    }
+  }
+
+  private closeRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    this.rooms.delete(roomId);
+    room.awareness.destroy();
+    room.doc.destroy();
+    console.log(`[Relay] Session closed: ${roomId}`);
+  }
+
+  private handleMessage(room: Room, ws: WebSocket, data: Uint8Array): void {
+    try {
+      const decoder = decoding.createDecoder(data);
+      const encoder = encoding.createEncoder();
+
+      switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+          encoding.writeVarUint(encoder, MESSAGE_SYNC);
+          syncProtocol.readSyncMessage(decoder, encoder, room.doc, ws);
+          if (encoding.length(encoder) > 1) {
+            ws.send(encoding.toUint8Array(encoder));
+          }
+          break;
+        case MESSAGE_AWARENESS:
+          awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), ws);
+          break;
+      }
+    } catch (error) {
+      console.error('[Relay] Failed to handle message:', error);
+    }
+  }
+
+  private broadcast(room: Room, message: Uint8Array): void {
+    for (const ws of room.conns.keys()) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    }
+  }
+}
+
+/**
+ * Create and start a relay
+ */
+export async function startLocalNetworkRelay(options: LocalNetworkRelayOptions = {}): Promise<LocalNetworkRelay> {
+  const relay = new LocalNetworkRelay(options);
+  await relay.start();
+  return relay;
+}
+
+function isLoopback(address: string | undefined): boolean {
+  return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function toUint8Array(data: RawData): Uint8Array {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -17,6 +17,8 @@ import { BOOTSTRAP_CHANNEL_LABEL } from '../bootstrap/index.js';
 export interface BootstrapSignalingOptions {
   sessionId: string;
   signalingServer: string;
+  /** Password for the session's room on the signaling server (see getRoomPassword) */
+  roomPassword?: string;
   onDataChannel: (channel: RTCDataChannel, peerId: string) => void;
   onError?: (error: Error) => void;
 }
@@ -26,6 +28,7 @@ export class BootstrapSignaling {
   private peerConnections: Map<string, RTCPeerConnection> = new Map();
   private readonly sessionId: string;
   private readonly signalingServer: string;
+  private readonly roomPassword?: string;
   private readonly onDataChannel: (channel: RTCDataChannel, peerId: string) => void;
   private readonly onError?: (error: Error) => void;
   private reconnectAttempts = 0;
@@ -36,6 +39,7 @@ export class BootstrapSignaling {
   constructor(options: BootstrapSignalingOptions) {
     this.sessionId = options.sessionId;
     this.signalingServer = options.signalingServer;
+    this.roomPassword = options.roomPassword;
     this.onDataChannel = options.onDataChannel;
     this.onError = options.onError;
   }
@@ -58,6 +62,7 @@ export class BootstrapSignaling {
           this.send({
             type: 'subscribe',
             topics: [this.sessionId],
+            password: this.roomPassword,
           });
           this.reconnectAttempts = 0;
           resolve();
@@ -2,7 +2,15 @@
  * Session management for ad-hoc P2P sharing
  */
 
-export { SessionManager, type SessionManagerOptions, type CreateSessionOptions, type JoinSessionOptions } from './session-manager.js';
+export {
+  SessionManager,
+  type SessionManagerOptions,
+  type CreateSessionOptions,
+  type JoinSessionOptions,
+  type PrefetchProgress,
+  type PrefetchOptions,
+  type SessionTranscript,
+} from './session-manager.js';
 
 export {
   encodeSessionPayload,
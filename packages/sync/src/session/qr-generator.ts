@@ -2,7 +2,8 @@
  * QR Code Generation for Session Sharing
  *
  * Generates QR codes that encode session connection information.
- * Users scan the QR code to join a sharing session.
+ * Users scan the QR code to join a sharing session. Plain strings, such
+ * as space invite links, can be encoded too.
  */
 
 import type { QRSessionPayload, BootstrapSessionPayload } from '@gigwidget/core';
@@ -151,6 +152,13 @@ function decodeConnectionInfo(type: string, compact: unknown): QRSessionPayload[
   }
 }
 
+/**
+ * Content of a QR code: session payloads are encoded, strings used as-is
+ */
+function toQRContent(payload: QRSessionPayload | BootstrapSessionPayload | string): string {
+  return typeof payload === 'string' ? payload : encodeSessionPayload(payload);
+}
+
 /**
  * Generate a URL for the bootstrap join page
  */
@@ -168,11 +176,11 @@ export function generateBootstrapUrl(
  * Requires 'qrcode' package to be installed.
  */
 export async function generateQRCodeDataURL(
-  payload: QRSessionPayload | BootstrapSessionPayload,
+  payload: QRSessionPayload | BootstrapSessionPayload | string,
   options: QRCodeOptions = {}
 ): Promise<string> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const encoded = encodeSessionPayload(payload);
+  const encoded = toQRContent(payload);
 
   // Dynamic import to keep bundle size down when not used
   const QRCode = await import('qrcode');
@@ -192,11 +200,11 @@ export async function generateQRCodeDataURL(
  * Generate QR code as SVG string
  */
 export async function generateQRCodeSVG(
-  payload: QRSessionPayload | BootstrapSessionPayload,
+  payload: QRSessionPayload | BootstrapSessionPayload | string,
   options: QRCodeOptions = {}
 ): Promise<string> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const encoded = encodeSessionPayload(payload);
+  const encoded = toQRContent(payload);
 
   const QRCode = await import('qrcode');
 
@@ -217,11 +225,11 @@ export async function generateQRCodeSVG(
  */
 export async function generateQRCodeToCanvas(
   canvas: HTMLCanvasElement,
-  payload: QRSessionPayload | BootstrapSessionPayload,
+  payload: QRSessionPayload | BootstrapSessionPayload | string,
   options: QRCodeOptions = {}
 ): Promise<void> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const encoded = encodeSessionPayload(payload);
+  const encoded = toQRContent(payload);
 
   const QRCode = await import('qrcode');
 
@@ -241,11 +249,11 @@ export async function generateQRCodeToCanvas(
  *
  * Useful for warning users if manifest is too large.
  */
-export function estimateQRCodeSize(payload: QRSessionPayload | BootstrapSessionPayload): {
+export function estimateQRCodeSize(payload: QRSessionPayload | BootstrapSessionPayload | string): {
   bytes: number;
   tooLarge: boolean;
 } {
-  const encoded = encodeSessionPayload(payload);
+  const encoded = toQRContent(payload);
   const bytes = encoded.length;
 
   // QR codes can hold up to ~2953 bytes at error correction level L
@@ -0,0 +1,29 @@
+/**
+ * Signaling Room Passwords
+ *
+ * The signaling server locks a room with the password its first subscriber
+ * sends. Sessions send one derived from the session password rather than the
+ * password itself: y-webrtc encrypts signaling with that, so the server
+ * never learns it. The join page (static/join) derives it the same way.
+ */
+
+const ROOM_PASSWORD_PREFIX = 'gigwidget-signaling:';
+
+/**
+ * Password for a session's signaling room, as hex SHA-256
+ */
+export async function getRoomPassword(password: string): Promise<string> {
+  const data = new TextEncoder().encode(ROOM_PASSWORD_PREFIX + password);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Signaling server URL carrying a room password, for clients like y-webrtc
+ * that can't add one to their subscribe messages
+ */
+export function withRoomPassword(url: string, roomPassword: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set('password', roomPassword);
+  return parsed.toString();
+}
@@ -21,13 +21,36 @@ import type {
   User,
   AwarenessParticipant,
   SessionParticipantInfo,
+  SessionRole,
+  SessionPermission,
+  SessionNowPlaying,
+  SessionQueue,
+  SessionQueueItem,
+  SessionMessage,
+  SessionParticipant,
+  SessionPlayedSong,
+  SongSet,
+} from '@gigwidget/core';
+import {
+  createSession,
+  generateId,
+  hasSessionPermission,
+  createSessionQueue,
+  getNextQueueItem,
 } from '@gigwidget/core';
-import { createSession, generateId } from '@gigwidget/core';
 import { WebrtcProvider } from 'y-webrtc';
-import { BluetoothProvider, isBluetoothAvailable } from '../providers/index.js';
+import type { Awareness } from 'y-protocols/awareness';
+import {
+  BluetoothProvider,
+  isBluetoothAvailable,
+  LocalNetworkProvider,
+  DEFAULT_LOCAL_RELAY_PORT,
+  type LocalRelayInfo,
+} from '../providers/index.js';
 import { Observable } from '../providers/observable.js';
 import { BootstrapHost, BOOTSTRAP_CHANNEL_LABEL } from '../bootstrap/index.js';
 import { BootstrapSignaling } from './bootstrap-signaling.js';
+import { getRoomPassword, withRoomPassword } from './room-password.js';
 
 // Default WebRTC signaling servers - using more reliable options
 const DEFAULT_SIGNALING_SERVERS = [
@@ -36,6 +59,10 @@ const DEFAULT_SIGNALING_SERVERS = [
   'wss://y-webrtc-signaling-us.herokuapp.com',
 ];
 
+// Chat limits, checked by receivers too
+const MAX_CHAT_MESSAGE_LENGTH = 500;
+const MAX_REACTION_LENGTH = 16;
+
 export interface SessionManagerOptions {
   /** Current user */
   user: User;
@@ -43,6 +70,8 @@ export interface SessionManagerOptions {
   signalingServers?: string[];
   /** Default session expiry in ms */
   defaultExpiryMs?: number;
+  /** Port of the local network relay running on this device */
+  localRelayPort?: number;
 }
 
 export interface CreateSessionOptions {
@@ -63,39 +92,162 @@ export interface JoinSessionOptions {
   payload: QRSessionPayload;
 }
 
+export interface PrefetchProgress {
+  /** Song contents (default and per-arrangement) in the manifest */
+  total: number;
+  /** Received so far, including ones already cached */
+  done: number;
+  /** Given up on after every attempt */
+  failed: number;
+}
+
+export interface PrefetchOptions {
+  /** Attempts per content before giving up (default 4) */
+  maxAttempts?: number;
+  /** Wait before the first retry, doubled after each failure (default 1s) */
+  retryDelayMs?: number;
+  /** Longest wait between retries (default 30s) */
+  maxRetryDelayMs?: number;
+  /** Stops the prefetch between requests */
+  signal?: AbortSignal;
+  onProgress?: (progress: PrefetchProgress) => void;
+}
+
+/**
+ * Record of a session, emitted with 'session-left' for the session history
+ */
+export interface SessionTranscript {
+  session: Session;
+  /** Everyone seen during the session, including this user */
+  participants: SessionParticipant[];
+}
+
+/**
+ * A value in a guarded shared map, with who wrote it: their user ID and
+ * Yjs client, which is also their awareness client. It only counts as
+ * theirs if that client is bound to that user.
+ *
+ * Yjs updates aren't signed, so a client could still name another's
+ * client and user: roles hold among clients that don't forge both.
+ */
+interface Authored<T> {
+  value: T;
+  userId: string;
+  client: number;
+}
+
+/**
+ * The queue as a whole, kept under 'setlist' in the queue map
+ */
+interface QueueInfo {
+  /** Tells this queue's items apart from those of earlier queues */
+  id: string;
+  setlistId?: string;
+  name: string;
+  setBy: string;
+  createdAt: number;
+}
+
+/**
+ * A queued song in the shared queue array, with who inserted it (checked
+ * like the writer of an Authored value)
+ */
+interface QueueEntry {
+  id: string;
+  songId: string;
+  queueId: string;
+  userId: string;
+  client: number;
+}
+
+type QueueValue = QueueInfo | string | boolean | null;
+
 export class SessionManager extends Observable {
   private activeSession: Session | null = null;
   private sessionDoc: Y.Doc | null = null;
   private webrtcProvider: WebrtcProvider | null = null;
   private bluetoothProvider: BluetoothProvider | null = null;
+  private localNetworkProvider: LocalNetworkProvider | null = null;
+  /** The relay this device hosts through, when hosting over the local network */
+  private localRelayInfo: LocalRelayInfo | null = null;
   private bootstrapHost: BootstrapHost | null = null;
   private bootstrapSignaling: BootstrapSignaling | null = null;
   private avatarThumbnail: string | undefined;
 
   // Song manifest sharing (sent over WebRTC, not in QR)
-  private manifestMap: Y.Map<string> | null = null;
+  private manifestMap: Y.Map<Authored<string>> | null = null;
   private storedManifest: SongManifestEntry[] = [];
 
   // Song content sharing
-  private songContentMap: Y.Map<string> | null = null;
+  private songContentMap: Y.Map<Authored<string>> | null = null;
   private contentRequests: Y.Map<number> | null = null;
-  private contentProvider: ((songId: string) => Promise<string | null>) | null = null;
+  private contentProvider: ((songId: string, arrangementId?: string) => Promise<string | null>) | null = null;
 
   // Transpose state sharing (host controls, joiners observe)
-  private transposeStateMap: Y.Map<number> | null = null;
+  private transposeStateMap: Y.Map<Authored<number>> | null = null;
 
   // Session control (host signals session end to eject joiners)
-  private sessionControlMap: Y.Map<number> | null = null;
+  private sessionControlMap: Y.Map<Authored<number>> | null = null;
+
+  // Session roles (host grants, keyed by user ID). Changes to shared maps
+  // are only accepted from participants whose role allows them, going by
+  // the author each value carries; the values last accepted are kept so
+  // the host can restore them.
+  private rolesMap: Y.Map<Authored<SessionRole>> | null = null;
+  private clientUserIds: Map<number, string> = new Map();
+  /**
+   * Yjs client of the host: this device's when hosting, else the client
+   * the manifest names as its writer. Only it is attributed to the host's
+   * user ID, whatever other clients announce in awareness.
+   */
+  private hostClientId: number | null = null;
+  private grantedRoles: Map<string, SessionRole> = new Map();
+  private acceptedContent: Map<string, string> = new Map();
+  private acceptedTranspose: Map<string, number> = new Map();
+
+  // Now playing (host or co-host leads, followers navigate along)
+  private nowPlayingMap: Y.Map<Authored<SessionNowPlaying>> | null = null;
+  private acceptedNowPlaying: Map<string, SessionNowPlaying> = new Map();
+
+  // Setlist queue. The order is a shared array so concurrent moves and
+  // inserts merge, its entries naming who inserted them; the queue map
+  // holds the rest under separate keys:
+  // 'setlist' (null once cleared), 'current' (item ID), 'skipped:<item>'
+  // and 'removed:<item>'. Removals are marked rather than deleted from
+  // the array: deletions carry no author.
+  private queueMap: Y.Map<Authored<QueueValue>> | null = null;
+  private queueItems: Y.Array<QueueEntry> | null = null;
+  private acceptedQueue: Map<string, QueueValue> = new Map();
+  private currentQueue: SessionQueue | null = null;
+  /** Queue entries as the host last saw them, to restore deleted ones */
+  private hostQueueEntries: QueueEntry[] = [];
+
+  // Chat, song requests and reactions (keyed by message ID), and the
+  // host's moderation lists ('muted' user IDs, 'cleared' message IDs).
+  // Both carry their writer, so a participant can't post as someone else
+  // or mute and clear without the host's permission.
+  private chatMap: Y.Map<Authored<SessionMessage>> | null = null;
+  private moderationMap: Y.Map<Authored<string[]>> | null = null;
+  private acceptedMessages: Map<string, SessionMessage> = new Map();
+  private acceptedModeration: Map<string, string[]> = new Map();
+
+  // Session history: everyone seen (keyed by user ID) and the songs
+  // played, in order, for the transcript emitted when leaving
+  private transcriptHostName: string | undefined;
+  private seenParticipants: Map<string, SessionParticipant> = new Map();
+  private playedSongs: SessionPlayedSong[] = [];
 
   readonly user: User;
   private readonly signalingServers: string[];
   private readonly defaultExpiryMs: number;
+  private readonly localRelayPort: number;
 
   constructor(options: SessionManagerOptions) {
     super();
     this.user = options.user;
     this.signalingServers = options.signalingServers ?? DEFAULT_SIGNALING_SERVERS;
     this.defaultExpiryMs = options.defaultExpiryMs ?? 10 * 60 * 60 * 1000; // 10 hours
+    this.localRelayPort = options.localRelayPort ?? DEFAULT_LOCAL_RELAY_PORT;
 
     // Create avatar thumbnail for awareness sharing
     this.createAvatarThumbnail();
@@ -189,7 +341,7 @@ export class SessionManager extends Observable {
 
     // Initialize bootstrap host if enabled
     if (options.enableBootstrap && options.songDocs) {
-      await this.initBootstrapHost(options.appBundle, options.songDocs, session.id);
+      await this.initBootstrapHost(options.appBundle, options.songDocs, session.id, options.password);
     }
 
     // Store manifest BEFORE initializing connection (so initContentSharing can access it)
@@ -245,6 +397,8 @@ export class SessionManager extends Observable {
       };
     }
 
+    this.startTranscript(this.user.displayName);
+
     // Store manifest for WebRTC sharing (manifestMap handles this)
     // Emit qrPayload WITHOUT manifest to keep QR code small
     this.emit('session-created', [{ session, qrPayload, songManifest }]);
@@ -258,7 +412,8 @@ export class SessionManager extends Observable {
   private async initBootstrapHost(
     appBundle: ArrayBuffer | undefined,
     songDocs: Map<string, Y.Doc>,
-    sessionId: string
+    sessionId: string,
+    password?: string
   ): Promise<void> {
     this.bootstrapHost = new BootstrapHost({
       appBundle,
@@ -283,6 +438,7 @@ export class SessionManager extends Observable {
     this.bootstrapSignaling = new BootstrapSignaling({
       sessionId,
       signalingServer: this.signalingServers[0],
+      roomPassword: password ? await getRoomPassword(password) : undefined,
       onDataChannel: (channel, peerId) => {
         console.log('[SessionManager] Bootstrap data channel connected from:', peerId);
         if (this.bootstrapHost) {
@@ -357,6 +513,10 @@ export class SessionManager extends Observable {
     }
 
     this.activeSession = session;
+    this.startTranscript(payload.hostName);
+
+    // Changes that arrived before the host was known can be checked now
+    this.revalidateSharedState();
 
     this.emit('session-joined', [{ session, manifest: payload.libraryManifest }]);
   }
@@ -365,10 +525,12 @@ export class SessionManager extends Observable {
    * Leave the current session
    */
   async leaveSession(): Promise<void> {
+    const transcript = this.buildTranscript();
+
     // If host is ending the session, signal all joiners first
     if (this.isHosting && this.sessionControlMap) {
       console.log('[SessionManager] Host ending session, signaling all joiners to leave');
-      this.sessionControlMap.set('sessionEnded', Date.now());
+      this.sessionControlMap.set('sessionEnded', this.authored(Date.now()));
       // Give joiners a moment to receive the signal before destroying connections
       await new Promise(resolve => setTimeout(resolve, 500));
     }
@@ -383,6 +545,12 @@ export class SessionManager extends Observable {
       this.bluetoothProvider = null;
     }
 
+    if (this.localNetworkProvider) {
+      this.localNetworkProvider.destroy();
+      this.localNetworkProvider = null;
+    }
+    this.localRelayInfo = null;
+
     if (this.bootstrapHost) {
       this.bootstrapHost.destroy();
       this.bootstrapHost = null;
@@ -398,11 +566,31 @@ export class SessionManager extends Observable {
       this.sessionDoc = null;
     }
 
+    this.rolesMap = null;
+    this.nowPlayingMap = null;
+    this.acceptedNowPlaying.clear();
+    this.queueMap = null;
+    this.queueItems = null;
+    this.acceptedQueue.clear();
+    this.currentQueue = null;
+    this.hostQueueEntries = [];
+    this.chatMap = null;
+    this.moderationMap = null;
+    this.acceptedMessages.clear();
+    this.acceptedModeration.clear();
+    this.clientUserIds.clear();
+    this.hostClientId = null;
+    this.grantedRoles.clear();
+    this.acceptedContent.clear();
+    this.acceptedTranspose.clear();
+    this.seenParticipants.clear();
+    this.playedSongs = [];
+
     const wasActive = this.activeSession !== null;
     this.activeSession = null;
 
     if (wasActive) {
-      this.emit('session-left', [{}]);
+      this.emit('session-left', [{ transcript }]);
     }
   }
 
@@ -443,7 +631,7 @@ export class SessionManager extends Observable {
     });
 
     this.webrtcProvider = new WebrtcProvider(session.id, this.sessionDoc, {
-      signaling: this.signalingServers,
+      signaling: await this.getSignalingUrls(this.signalingServers, password),
       password,
     });
 
@@ -463,71 +651,166 @@ export class SessionManager extends Observable {
     });
 
     this.webrtcProvider = new WebrtcProvider(session.id, this.sessionDoc, {
-      signaling: [info.signalingServer],
+      signaling: await this.getSignalingUrls([info.signalingServer], info.password),
       password: info.password,
     });
 
     this.setupWebRTCListeners();
   }
 
+  /**
+   * Signaling server URLs, carrying the room password when the session
+   * has one so the server lets only the session's peers into its room
+   */
+  private async getSignalingUrls(servers: string[], password?: string): Promise<string[]> {
+    if (!password) return servers;
+    const roomPassword = await getRoomPassword(password);
+    return servers.map((url) => withRoomPassword(url, roomPassword));
+  }
+
   private setupWebRTCListeners(): void {
     if (!this.webrtcProvider) return;
 
     // Initialize content sharing maps
     this.initContentSharing();
+    this.setupAwareness(this.webrtcProvider.awareness);
 
-    const awareness = this.webrtcProvider.awareness;
+    this.webrtcProvider.on('synced', (event: { synced: boolean }) => {
+      console.log('[SessionManager] WebRTC synced:', event.synced);
+      this.emit('sync-status', [{ synced: event.synced, transport: 'webrtc' }]);
+    });
 
+    this.webrtcProvider.on('peers', (event: { webrtcPeers: unknown[] }) => {
+      console.log('[SessionManager] WebRTC peers:', event.webrtcPeers.length);
+      this.emit('peers-changed', [{ count: event.webrtcPeers.length, transport: 'webrtc' }]);
+    });
+
+    // Log connection status
+    this.webrtcProvider.on('status', (event: { connected: boolean }) => {
+      console.log('[SessionManager] WebRTC status:', event.connected ? 'connected' : 'disconnected');
+    });
+  }
+
+  /**
+   * Publish the local user on awareness and track participants
+   */
+  private setupAwareness(awareness: Awareness): void {
     // Set local user info on awareness
     awareness.setLocalStateField('user', {
+      userId: this.user.id,
       displayName: this.user.displayName,
       avatarThumbnail: this.avatarThumbnail,
       instruments: this.user.instruments,
       isHost: this.isHosting,
+      role: this.role,
       joinedAt: Date.now(),
-    } as AwarenessParticipant);
+    } satisfies AwarenessParticipant);
 
     // Listen for awareness changes to track participants
     awareness.on('change', () => {
+      this.trackClientUsers();
       const participants = this.getParticipants();
+      this.recordParticipants(participants);
       this.emit('participants-changed', [{ participants }]);
     });
+  }
 
-    this.webrtcProvider.on('synced', (event: { synced: boolean }) => {
-      console.log('[SessionManager] WebRTC synced:', event.synced);
-      this.emit('sync-status', [{ synced: event.synced, transport: 'webrtc' }]);
-    });
+  /**
+   * Remember which user each awareness client belongs to, so changes they
+   * made can still be attributed after they leave.
+   *
+   * Awareness is self-reported, so a client is bound to the first user ID
+   * it announces, and claims are ignored when they name the host (only the
+   * pinned host client speaks for it) or a user whose client is still here.
+   */
+  private trackClientUsers(): void {
+    const awareness = this.awareness;
+    if (!awareness) return;
 
-    this.webrtcProvider.on('peers', (event: { webrtcPeers: unknown[] }) => {
-      console.log('[SessionManager] WebRTC peers:', event.webrtcPeers.length);
-      this.emit('peers-changed', [{ count: event.webrtcPeers.length, transport: 'webrtc' }]);
-    });
+    const states = awareness.getStates();
+    let learned = false;
+    states.forEach((state: Record<string, unknown>, clientId: number) => {
+      const user = state.user as AwarenessParticipant | undefined;
+      if (!user?.userId || this.clientUserIds.has(clientId)) return;
+      if (user.userId === this.activeSession?.hostId) return;
 
-    // Log connection status
-    this.webrtcProvider.on('status', (event: { connected: boolean }) => {
-      console.log('[SessionManager] WebRTC status:', event.connected ? 'connected' : 'disconnected');
+      for (const [boundClientId, userId] of this.clientUserIds) {
+        if (userId === user.userId && states.has(boundClientId)) {
+          console.warn('[SessionManager] Ignoring client claiming a user already here:', clientId);
+          return;
+        }
+      }
+
+      this.clientUserIds.set(clientId, user.userId);
+      learned = true;
     });
+
+    if (learned) this.revalidateSharedState();
+  }
+
+  /**
+   * Pin the host to the client the manifest names as its writer. A host
+   * that resumes writes it again from a new client; that is only accepted
+   * once the previous host client has left. Returns whether the
+   * manifest's current author is the host.
+   */
+  private pinHostClient(): boolean {
+    const manifest = this.manifestMap?.get('songs');
+    if (!manifest || !this.activeSession) return false;
+    if (manifest.userId !== this.activeSession.hostId) {
+      console.warn('[SessionManager] Ignoring manifest not written by the host');
+      return false;
+    }
+
+    const clientId = manifest.client;
+    if (clientId === this.hostClientId) return true;
+    if (this.hostClientId !== null && this.awareness?.getStates().has(this.hostClientId)) {
+      console.warn('[SessionManager] Ignoring manifest not written by the host');
+      return false;
+    }
+
+    this.hostClientId = clientId;
+    this.clientUserIds.set(clientId, this.activeSession.hostId);
+    this.revalidateSharedState();
+    return true;
+  }
+
+  /**
+   * Whether an awareness state's user is the one its client is bound to
+   */
+  private isVerifiedParticipant(clientId: number, userId: string): boolean {
+    return clientId === this.sessionDoc?.clientID || this.clientUserIds.get(clientId) === userId;
+  }
+
+  /**
+   * Awareness of the active transport (WebRTC or local network)
+   */
+  private get awareness(): Awareness | null {
+    return this.webrtcProvider?.awareness ?? this.localNetworkProvider?.awareness ?? null;
   }
 
   /**
    * Get list of all participants from awareness
    */
   getParticipants(): SessionParticipantInfo[] {
-    if (!this.webrtcProvider) return [];
+    const awareness = this.awareness;
+    if (!awareness) return [];
 
-    const awareness = this.webrtcProvider.awareness;
     const states = awareness.getStates();
     const participants: SessionParticipantInfo[] = [];
 
     states.forEach((state: Record<string, unknown>, clientId: number) => {
       const user = state.user as AwarenessParticipant | undefined;
-      if (user) {
+      if (user && this.isVerifiedParticipant(clientId, user.userId)) {
         participants.push({
           clientId,
+          userId: user.userId,
           displayName: user.displayName,
           avatarThumbnail: user.avatarThumbnail,
           instruments: user.instruments,
           isHost: user.isHost,
+          // The granted role, not the one the participant announces
+          role: this.getRole(user.userId),
         });
       }
     });
@@ -550,24 +833,42 @@ export class SessionManager extends Observable {
     this.contentRequests = this.sessionDoc.getMap('contentRequests');
     this.transposeStateMap = this.sessionDoc.getMap('transposeState');
     this.sessionControlMap = this.sessionDoc.getMap('sessionControl');
-
-    // Host: populate manifest map with stored manifest
-    if (this.isHosting && this.storedManifest.length > 0) {
+    this.rolesMap = this.sessionDoc.getMap('roles');
+    this.nowPlayingMap = this.sessionDoc.getMap('nowPlaying');
+    this.queueMap = this.sessionDoc.getMap('queue');
+    this.queueItems = this.sessionDoc.getArray('queueItems');
+    this.chatMap = this.sessionDoc.getMap('chat');
+    this.moderationMap = this.sessionDoc.getMap('moderation');
+
+    // Everyone checks who made each change to roles, transposition and
+    // content before acting on it
+    this.rolesMap.observe((event) => this.checkRoleChanges(event.keysChanged));
+    this.transposeStateMap.observe((event) => this.checkTransposeChanges(event.keysChanged));
+    this.songContentMap.observe((event) => this.checkContentChanges(event.keysChanged));
+    this.nowPlayingMap.observe((event) => this.checkNowPlayingChanges(event.keysChanged));
+    this.queueMap.observe((event) => this.checkQueueChanges(event.keysChanged));
+    this.queueItems.observe((event) => this.handleQueueItemsChanged(event.transaction.local));
+    this.moderationMap.observe((event) => this.checkModerationChanges(event.keysChanged));
+    this.chatMap.observe((event) => this.checkChatChanges(event.keysChanged));
+
+    // Host: populate manifest map with stored manifest. Written even when
+    // empty: joiners recognise the host as the manifest's author.
+    if (this.isHosting) {
       console.log('[SessionManager] Host setting manifest in Y.Map:', this.storedManifest.length, 'songs');
       const manifestJson = JSON.stringify(this.storedManifest);
       console.log('[SessionManager] Manifest JSON length:', manifestJson.length, 'chars');
-      this.manifestMap.set('songs', manifestJson);
-      console.log('[SessionManager] Manifest set in Y.Map, current value:', this.manifestMap.get('songs')?.substring(0, 100));
-    } else if (this.isHosting) {
-      console.log('[SessionManager] Host has no manifest to share (storedManifest.length:', this.storedManifest.length, ')');
+      this.hostClientId = this.sessionDoc.clientID;
+      this.clientUserIds.set(this.sessionDoc.clientID, this.user.id);
+      this.manifestMap.set('songs', this.authored(manifestJson));
+      console.log('[SessionManager] Manifest set in Y.Map, current value:', this.manifestMap.get('songs')?.value.substring(0, 100));
     }
 
     // Joiner: observe manifest for updates
     if (!this.isHosting) {
       console.log('[SessionManager] Joiner checking for existing manifest...');
       // Check if manifest already available
-      const existingManifest = this.manifestMap.get('songs');
-      if (existingManifest) {
+      const existingManifest = this.manifestMap.get('songs')?.value;
+      if (existingManifest && this.pinHostClient()) {
         console.log('[SessionManager] Joiner found existing manifest:', existingManifest.length, 'chars');
         this.handleManifestReceived(existingManifest);
       } else {
@@ -578,9 +879,9 @@ export class SessionManager extends Observable {
       this.manifestMap.observe((event) => {
         console.log('[SessionManager] Joiner: manifestMap changed, keys:', Array.from(event.keysChanged));
         if (event.keysChanged.has('songs')) {
-          const manifest = this.manifestMap?.get('songs');
+          const manifest = this.manifestMap?.get('songs')?.value;
           console.log('[SessionManager] Joiner: songs key changed, manifest:', manifest ? manifest.length + ' chars' : 'null');
-          if (manifest) {
+          if (manifest && this.pinHostClient()) {
             this.handleManifestReceived(manifest);
           }
         }
@@ -592,10 +893,10 @@ export class SessionManager extends Observable {
     if (this.isHosting) {
       console.log('[SessionManager] Host setting up content request observer');
       this.contentRequests.observe((event) => {
-        event.changes.keys.forEach((change, songId) => {
+        event.changes.keys.forEach((change, key) => {
           if (change.action === 'add' || change.action === 'update') {
-            console.log('[SessionManager] Content requested for:', songId);
-            this.handleContentRequest(songId);
+            console.log('[SessionManager] Content requested for:', key);
+            this.handleContentRequest(key);
           }
         });
       });
@@ -605,9 +906,12 @@ export class SessionManager extends Observable {
     if (!this.isHosting) {
       console.log('[SessionManager] Joiner setting up session control observer');
       this.sessionControlMap.observe((event) => {
-        if (event.keysChanged.has('sessionEnded')) {
-          const timestamp = this.sessionControlMap?.get('sessionEnded');
-          console.log('[SessionManager] Session ended by host at:', timestamp);
+        if (!event.keysChanged.has('sessionEnded') || !this.sessionControlMap) return;
+
+        const ended = this.sessionControlMap.get('sessionEnded');
+        const authorRole = ended ? this.getAuthorRole(ended) : null;
+        if (ended && authorRole && hasSessionPermission(authorRole, 'end_session')) {
+          console.log('[SessionManager] Session ended by host at:', ended.value);
           this.handleHostEndedSession();
         }
       });
@@ -635,59 +939,105 @@ export class SessionManager extends Observable {
     return this.storedManifest;
   }
 
+  /**
+   * Share more songs in the running session (host only), e.g. ones
+   * inserted into the queue. Songs already shared are left as they are.
+   */
+  addToManifest(entries: SongManifestEntry[]): void {
+    if (!this.manifestMap || !this.isHosting) return;
+
+    const shared = new Set(this.storedManifest.map((e) => e.id));
+    const added = entries.filter((e) => !shared.has(e.id));
+    if (added.length === 0) return;
+
+    this.storedManifest = [...this.storedManifest, ...added];
+    this.manifestMap.set('songs', this.authored(JSON.stringify(this.storedManifest)));
+    this.emit('manifest-changed', [{ manifest: this.storedManifest }]);
+  }
+
+  /**
+   * Let joiners view a song without saving it to their library, or allow
+   * saving again (host only)
+   */
+  setViewOnly(songId: string, viewOnly: boolean): void {
+    if (!this.manifestMap || !this.isHosting) return;
+
+    const entry = this.storedManifest.find((e) => e.id === songId);
+    if (!entry || !!entry.viewOnly === viewOnly) return;
+
+    this.storedManifest = this.storedManifest.map((e) =>
+      e.id === songId ? { ...e, viewOnly: viewOnly || undefined } : e
+    );
+    this.manifestMap.set('songs', this.authored(JSON.stringify(this.storedManifest)));
+    this.emit('manifest-changed', [{ manifest: this.storedManifest }]);
+  }
+
   /**
    * Set the content provider function (host only)
-   * Called with songId, should return the song content or null
+   * Called with songId and, for a specific arrangement, its ID; should
+   * return the content (the default arrangement without an ID) or null
    */
-  setContentProvider(provider: (songId: string) => Promise<string | null>): void {
+  setContentProvider(provider: (songId: string, arrangementId?: string) => Promise<string | null>): void {
     this.contentProvider = provider;
   }
 
+  /**
+   * Key for content in songContent/contentRequests: the song ID for the
+   * default arrangement, "songId:arrangementId" for a specific one
+   */
+  private getContentKey(songId: string, arrangementId?: string): string {
+    return arrangementId ? `${songId}:${arrangementId}` : songId;
+  }
+
   /**
    * Handle a content request from a joiner (host only)
    */
-  private async handleContentRequest(songId: string): Promise<void> {
+  private async handleContentRequest(key: string): Promise<void> {
     if (!this.contentProvider || !this.songContentMap) {
       console.log('[SessionManager] Cannot handle content request - contentProvider:', !!this.contentProvider, 'songContentMap:', !!this.songContentMap);
       return;
     }
 
     // Check if we already have this content
-    if (this.songContentMap.has(songId)) {
-      console.log('[SessionManager] Content already available for:', songId);
+    if (this.acceptedContent.has(key)) {
+      console.log('[SessionManager] Content already available for:', key);
       return;
     }
 
-    console.log('[SessionManager] Providing content for:', songId);
+    const [songId, arrangementId] = key.split(':');
+    console.log('[SessionManager] Providing content for:', key);
     try {
-      const content = await this.contentProvider(songId);
+      const content = await this.contentProvider(songId, arrangementId);
       if (content) {
-        this.songContentMap.set(songId, content);
-        console.log('[SessionManager] Content provided for:', songId);
+        this.songContentMap.set(key, this.authored(content));
+        console.log('[SessionManager] Content provided for:', key);
       }
     } catch (err) {
-      console.error('[SessionManager] Failed to provide content for:', songId, err);
+      console.error('[SessionManager] Failed to provide content for:', key, err);
     }
   }
 
   /**
    * Request song content (joiner)
-   * Returns immediately if content is cached, otherwise triggers a request
+   * Returns immediately if content is cached, otherwise triggers a request.
+   * Without arrangementId, the host's default arrangement is returned.
    */
-  async requestSongContent(songId: string): Promise<string | null> {
+  async requestSongContent(songId: string, arrangementId?: string): Promise<string | null> {
     if (!this.songContentMap || !this.contentRequests) {
       return null;
     }
 
+    const key = this.getContentKey(songId, arrangementId);
+
     // Check if content is already available
-    const existing = this.songContentMap.get(songId);
+    const existing = this.acceptedContent.get(key);
     if (existing) {
       return existing;
     }
 
     // Request content from host
-    console.log('[SessionManager] Requesting content for:', songId);
-    this.contentRequests.set(songId, Date.now());
+    console.log('[SessionManager] Requesting content for:', key);
+    this.contentRequests.set(key, Date.now());
 
     // Wait for content to arrive (with timeout)
     return new Promise((resolve) => {
@@ -696,70 +1046,124 @@ export class SessionManager extends Observable {
         resolve(null);
       }, 10000); // 10 second timeout
 
-      const observer = (event: Y.YMapEvent<string>) => {
-        if (event.keysChanged.has(songId)) {
+      const handler = (event: unknown) => {
+        const changed = event as { key: string; content: string };
+        if (changed.key === key) {
           cleanup();
-          resolve(this.songContentMap?.get(songId) ?? null);
+          resolve(changed.content);
         }
       };
 
       const cleanup = () => {
         clearTimeout(timeout);
-        this.songContentMap?.unobserve(observer);
+        this.off('content-changed', handler);
       };
 
-      if (this.songContentMap) {
-        this.songContentMap.observe(observer);
-      } else {
-        cleanup();
-        resolve(null);
-      }
+      this.on('content-changed', handler);
     });
   }
 
   /**
    * Get cached song content (sync, no request)
    */
-  getCachedContent(songId: string): string | null {
-    return this.songContentMap?.get(songId) ?? null;
+  getCachedContent(songId: string, arrangementId?: string): string | null {
+    return this.acceptedContent.get(this.getContentKey(songId, arrangementId)) ?? null;
   }
 
   /**
    * Check if content is available
    */
-  hasContent(songId: string): boolean {
-    return this.songContentMap?.has(songId) ?? false;
+  hasContent(songId: string, arrangementId?: string): boolean {
+    return this.acceptedContent.has(this.getContentKey(songId, arrangementId));
   }
 
   /**
-   * Update shared song content (host only - syncs to all joiners)
-   * Call this when the host edits a song to propagate changes in real-time
+   * Fetch the content of every song and arrangement in the manifest (joiner),
+   * one request at a time so the host isn't flooded. Failed requests are
+   * retried with exponential backoff. Content arrives through the usual
+   * 'content-changed' events, so it can be cached as it comes in.
    */
-  updateSharedContent(songId: string, content: string): void {
-    if (!this.songContentMap || !this.isHosting) return;
-    console.log('[SessionManager] Host updating shared content for:', songId);
-    this.songContentMap.set(songId, content);
+  async prefetchAllContent(options: PrefetchOptions = {}): Promise<PrefetchProgress> {
+    const { maxAttempts = 4, retryDelayMs = 1000, maxRetryDelayMs = 30_000, signal, onProgress } = options;
+
+    const targets = this.storedManifest.flatMap((entry) =>
+      entry.arrangements?.length
+        ? entry.arrangements.map((a) => ({ songId: entry.id, arrangementId: a.id as string | undefined }))
+        : [{ songId: entry.id, arrangementId: undefined }]
+    );
+    const progress: PrefetchProgress = { total: targets.length, done: 0, failed: 0 };
+    onProgress?.({ ...progress });
+
+    for (const { songId, arrangementId } of targets) {
+      let content: string | null = null;
+      for (let attempt = 0; attempt < maxAttempts && !content; attempt++) {
+        if (signal?.aborted || !this.activeSession) return progress;
+
+        if (attempt > 0) {
+          const delay = Math.min(retryDelayMs * 2 ** (attempt - 1), maxRetryDelayMs);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        content = await this.requestSongContent(songId, arrangementId);
+      }
+
+      if (content) {
+        progress.done++;
+      } else {
+        progress.failed++;
+        console.warn('[SessionManager] Prefetch gave up on:', this.getContentKey(songId, arrangementId));
+      }
+      onProgress?.({ ...progress });
+    }
+
+    return progress;
   }
 
   /**
-   * Observe content updates for a song (joiner only)
+   * Update shared song content (host, co-hosts and editors - syncs to all
+   * participants). Call this when a chart is edited to propagate changes
+   * in real-time. Edits to the default arrangement (first in the manifest
+   * entry) also update the song's default content.
+   */
+  updateSharedContent(songId: string, content: string, arrangementId?: string): void {
+    if (!this.songContentMap || !this.can('edit_content')) return;
+    console.log('[SessionManager] Updating shared content for:', songId, arrangementId ?? '');
+
+    const entry = this.storedManifest.find((e) => e.id === songId);
+    const defaultId = entry?.arrangements?.[0]?.id;
+
+    this.sessionDoc?.transact(() => {
+      if (arrangementId) {
+        this.songContentMap?.set(this.getContentKey(songId, arrangementId), this.authored(content));
+      }
+      if (!arrangementId || !defaultId || arrangementId === defaultId) {
+        this.songContentMap?.set(songId, this.authored(content));
+      }
+    });
+  }
+
+  /**
+   * Observe content updates for a song arrangement
+   * Only updates from participants allowed to edit are reported.
    * Returns a cleanup function to stop observing
    */
-  observeContentUpdates(songId: string, callback: (content: string) => void): () => void {
+  observeContentUpdates(
+    songId: string,
+    callback: (content: string) => void,
+    arrangementId?: string
+  ): () => void {
     if (!this.songContentMap) return () => {};
 
-    const observer = (event: Y.YMapEvent<string>) => {
-      if (event.keysChanged.has(songId)) {
-        const updatedContent = this.songContentMap?.get(songId);
-        if (updatedContent) {
-          console.log('[SessionManager] Content updated for:', songId);
-          callback(updatedContent);
-        }
+    const key = this.getContentKey(songId, arrangementId);
+    const handler = (event: unknown) => {
+      const changed = event as { key: string; content: string };
+      if (changed.key === key && changed.content) {
+        console.log('[SessionManager] Content updated for:', key);
+        callback(changed.content);
       }
     };
 
-    this.songContentMap.observe(observer);
-    return () => this.songContentMap?.unobserve(observer);
+    this.on('content-changed', handler);
+    return () => this.off('content-changed', handler);
   }
 
   // ============================================================================
@@ -767,11 +1171,11 @@ export class SessionManager extends Observable {
   // ============================================================================
 
   /**
-   * Set transpose for a song (host only - syncs to all joiners)
+   * Set transpose for a song (host and co-hosts - syncs to all participants)
    */
   setTranspose(songId: string, semitones: number): void {
-    if (!this.transposeStateMap || !this.isHosting) return;
-    this.transposeStateMap.set(songId, semitones);
+    if (!this.transposeStateMap || !this.can('transpose')) return;
+    this.transposeStateMap.set(songId, this.authored(semitones));
     console.log('[SessionManager] Transpose set for', songId, ':', semitones);
   }
 
@@ -779,7 +1183,7 @@ export class SessionManager extends Observable {
    * Get transpose for a song
    */
   getTranspose(songId: string): number {
-    return this.transposeStateMap?.get(songId) ?? 0;
+    return this.acceptedTranspose.get(songId) ?? 0;
   }
 
   /**
@@ -789,14 +1193,665 @@ export class SessionManager extends Observable {
   observeTranspose(songId: string, callback: (semitones: number) => void): () => void {
     if (!this.transposeStateMap) return () => {};
 
-    const observer = (event: Y.YMapEvent<number>) => {
-      if (event.keysChanged.has(songId)) {
-        callback(this.transposeStateMap?.get(songId) ?? 0);
+    const handler = (event: unknown) => {
+      const changed = event as { songId: string; semitones: number };
+      if (changed.songId === songId) {
+        callback(changed.semitones);
       }
     };
 
-    this.transposeStateMap.observe(observer);
-    return () => this.transposeStateMap?.unobserve(observer);
+    this.on('transpose-changed', handler);
+    return () => this.off('transpose-changed', handler);
+  }
+
+  // ============================================================================
+  // Now Playing
+  // ============================================================================
+
+  /**
+   * Set the song everyone should be on (host and co-hosts)
+   */
+  setNowPlaying(nowPlaying: Omit<SessionNowPlaying, 'setBy' | 'updatedAt'>): void {
+    if (!this.nowPlayingMap || !this.can('change_song')) return;
+
+    this.nowPlayingMap.set(
+      'current',
+      this.authored({
+        ...nowPlaying,
+        setBy: this.user.id,
+        updatedAt: Date.now(),
+      })
+    );
+  }
+
+  /**
+   * Set the section being played in the current song (host and co-hosts)
+   */
+  setCurrentSection(section: string | undefined): void {
+    const current = this.getNowPlaying();
+    if (!current) return;
+
+    const { setBy: _setBy, updatedAt: _updatedAt, ...rest } = current;
+    this.setNowPlaying({ ...rest, section });
+  }
+
+  /**
+   * The song currently being played, if the leader has set one
+   */
+  getNowPlaying(): SessionNowPlaying | null {
+    return this.acceptedNowPlaying.get('current') ?? null;
+  }
+
+  /**
+   * Observe now playing changes. Returns a cleanup function.
+   */
+  observeNowPlaying(callback: (nowPlaying: SessionNowPlaying) => void): () => void {
+    const handler = (event: unknown) => {
+      callback((event as { nowPlaying: SessionNowPlaying }).nowPlaying);
+    };
+
+    this.on('now-playing-changed', handler);
+    return () => this.off('now-playing-changed', handler);
+  }
+
+  // ============================================================================
+  // Setlist Queue
+  // ============================================================================
+
+  /**
+   * Start a queue from a setlist (host and co-hosts). Setlist songs the
+   * session doesn't share are left out.
+   */
+  attachSetlist(setlist: SongSet): void {
+    if (!this.sessionDoc || !this.queueMap || !this.queueItems || !this.can('change_song')) return;
+    const queueMap = this.queueMap;
+    const queueItems = this.queueItems;
+
+    const queue = createSessionQueue(setlist, this.storedManifest.map((e) => e.id), this.user.id);
+    const info: QueueInfo = {
+      id: generateId(),
+      setlistId: queue.setlistId,
+      name: queue.name,
+      setBy: queue.setBy,
+      createdAt: queue.createdAt,
+    };
+
+    this.sessionDoc.transact(() => {
+      queueItems.delete(0, queueItems.length);
+      queueItems.push(queue.items.map((item) => this.createQueueEntry(item.id, item.songId, info.id)));
+      queueMap.set('setlist', this.authored<QueueValue>(info));
+    });
+  }
+
+  /**
+   * The session's queue, if one is attached
+   */
+  getQueue(): SessionQueue | null {
+    return this.currentQueue;
+  }
+
+  moveInQueue(itemId: string, toIndex: number): void {
+    const queue = this.getQueue();
+    if (!this.sessionDoc || !this.queueItems || !queue || !this.can('change_song')) return;
+    const queueItems = this.queueItems;
+
+    // Moved before the item that will follow it, as in the list without it
+    const others = queue.items.filter((item) => item.id !== itemId);
+    const before = others[Math.max(0, toIndex)];
+    const last = others.at(-1);
+
+    this.sessionDoc.transact(() => {
+      const from = this.getQueueEntryIndex(itemId);
+      if (from === -1) return;
+
+      const { id, songId, queueId } = queueItems.get(from);
+      queueItems.delete(from, 1);
+      const to = before
+        ? this.getQueueEntryIndex(before.id)
+        : last
+          ? this.getQueueEntryIndex(last.id) + 1
+          : 0;
+      queueItems.insert(Math.max(0, to), [this.createQueueEntry(id, songId, queueId)]);
+    });
+    this.updateNextUp();
+  }
+
+  skipInQueue(itemId: string, skipped = true): void {
+    if (!this.queueMap || !this.getQueue() || !this.can('change_song')) return;
+    this.queueMap.set(`skipped:${itemId}`, this.authored<QueueValue>(skipped));
+    this.updateNextUp();
+  }
+
+  /**
+   * Insert a shared song, by default right after the one playing
+   */
+  insertIntoQueue(songId: string, index?: number): void {
+    const queue = this.getQueue();
+    const info = this.acceptedQueue.get('setlist') as QueueInfo | null | undefined;
+    if (!this.queueItems || !queue || !info || !this.can('change_song')) return;
+    if (!this.storedManifest.some((e) => e.id === songId)) return;
+
+    const at = Math.max(0, Math.min(index ?? queue.currentIndex + 1, queue.items.length));
+    const before = queue.items[at];
+    const last = queue.items.at(-1);
+    const to = before
+      ? this.getQueueEntryIndex(before.id)
+      : last
+        ? this.getQueueEntryIndex(last.id) + 1
+        : this.queueItems.length;
+
+    this.queueItems.insert(Math.max(0, to), [this.createQueueEntry(generateId(), songId, info.id)]);
+    this.updateNextUp();
+  }
+
+  /**
+   * Remove an item from the queue. Removing the current item makes the
+   * one before it current, so next up stays where it was.
+   */
+  removeFromQueue(itemId: string): void {
+    const queue = this.getQueue();
+    const index = queue?.items.findIndex((item) => item.id === itemId) ?? -1;
+    if (!this.sessionDoc || !this.queueMap || !queue || index === -1 || !this.can('change_song')) return;
+    const queueMap = this.queueMap;
+
+    this.sessionDoc.transact(() => {
+      if (index === queue.currentIndex) {
+        queueMap.set('current', this.authored<QueueValue>(queue.items[index - 1]?.id ?? null));
+      }
+      queueMap.set(`removed:${itemId}`, this.authored<QueueValue>(true));
+    });
+    this.updateNextUp();
+  }
+
+  /**
+   * Detach the queue (host and co-hosts)
+   */
+  clearQueue(): void {
+    if (!this.sessionDoc || !this.queueMap || !this.queueItems || !this.can('change_song')) return;
+    const queueMap = this.queueMap;
+    const queueItems = this.queueItems;
+
+    this.sessionDoc.transact(() => {
+      queueMap.set('setlist', this.authored<QueueValue>(null));
+      queueItems.delete(0, queueItems.length);
+    });
+  }
+
+  /**
+   * Play a queued song: it becomes the current item and the song on
+   * everyone's screen, with the next unskipped item as next up
+   */
+  playQueueItem(itemId: string, arrangementId?: string): void {
+    const queue = this.getQueue();
+    const index = queue?.items.findIndex((item) => item.id === itemId) ?? -1;
+    if (!this.queueMap || !queue || index === -1 || !this.can('change_song')) return;
+
+    this.queueMap.set('current', this.authored<QueueValue>(itemId));
+    this.setNowPlaying({
+      songId: queue.items[index].songId,
+      arrangementId,
+      nextSongId: getNextQueueItem(queue, index)?.songId,
+    });
+  }
+
+  /**
+   * Observe queue changes. Returns a cleanup function.
+   */
+  observeQueue(callback: (queue: SessionQueue | null) => void): () => void {
+    const handler = (event: unknown) => {
+      callback((event as { queue: SessionQueue | null }).queue);
+    };
+
+    this.on('queue-changed', handler);
+    return () => this.off('queue-changed', handler);
+  }
+
+  /**
+   * Keep next up in step with the queue after changing it
+   */
+  private updateNextUp(): void {
+    const queue = this.getQueue();
+    const nowPlaying = this.getNowPlaying();
+    const current = queue?.items[queue.currentIndex];
+    if (!queue || !nowPlaying || current?.songId !== nowPlaying.songId) return;
+
+    const nextSongId = getNextQueueItem(queue)?.songId;
+    if (nextSongId !== nowPlaying.nextSongId) {
+      const { setBy: _setBy, updatedAt: _updatedAt, ...rest } = nowPlaying;
+      this.setNowPlaying({ ...rest, nextSongId });
+    }
+  }
+
+  /**
+   * An entry for the shared queue array, as inserted by this device
+   */
+  private createQueueEntry(id: string, songId: string, queueId: string): QueueEntry {
+    return { id, songId, queueId, userId: this.user.id, client: this.sessionDoc?.clientID ?? 0 };
+  }
+
+  /**
+   * Entries of the shared queue array, in order
+   */
+  private getQueueEntries(): QueueEntry[] {
+    return this.queueItems?.toArray() ?? [];
+  }
+
+  /**
+   * Whether whoever inserted a queue entry may change the queue, or null
+   * if they can't be identified yet
+   */
+  private canQueue(entry: QueueEntry): boolean | null {
+    const authorRole = this.getAuthorRole(entry);
+    return authorRole ? hasSessionPermission(authorRole, 'change_song') : null;
+  }
+
+  /**
+   * Position in the shared array of the entry a queue item is shown from
+   */
+  private getQueueEntryIndex(itemId: string): number {
+    const info = this.acceptedQueue.get('setlist') as QueueInfo | null | undefined;
+    return this.getQueueEntries().findIndex(
+      (entry) => entry.id === itemId && entry.queueId === info?.id && this.canQueue(entry)
+    );
+  }
+
+  /**
+   * The queue as accepted: entries of the current queue inserted by
+   * someone allowed to, without removed items. An item moved by two
+   * people at once shows where it appears first.
+   */
+  private buildQueue(): SessionQueue | null {
+    const info = this.acceptedQueue.get('setlist') as QueueInfo | null | undefined;
+    if (!info) return null;
+
+    const items: SessionQueueItem[] = [];
+    const seen = new Set<string>();
+    for (const entry of this.getQueueEntries()) {
+      if (entry.queueId !== info.id || seen.has(entry.id) || !this.canQueue(entry)) continue;
+      seen.add(entry.id);
+      if (this.acceptedQueue.get(`removed:${entry.id}`) === true) continue;
+      items.push({ id: entry.id, songId: entry.songId, skipped: this.acceptedQueue.get(`skipped:${entry.id}`) === true });
+    }
+
+    const currentId = this.acceptedQueue.get('current');
+    return {
+      setlistId: info.setlistId,
+      name: info.name,
+      items,
+      currentIndex: items.findIndex((item) => item.id === currentId),
+      setBy: info.setBy,
+      createdAt: info.createdAt,
+    };
+  }
+
+  /**
+   * Rebuild the queue and report it if it changed
+   */
+  private refreshQueue(): void {
+    const queue = this.buildQueue();
+    if (JSON.stringify(queue) === JSON.stringify(this.currentQueue)) return;
+
+    this.currentQueue = queue;
+    this.emit('queue-changed', [{ queue }]);
+  }
+
+  /**
+   * Deletions from the queue array can't be attributed, so the host puts
+   * back items that vanished without being removed or moved
+   */
+  private handleQueueItemsChanged(local: boolean): void {
+    if (this.queueMap) this.checkQueueChanges(Array.from(this.queueMap.keys()));
+    if (!this.isHosting || !this.sessionDoc || !this.queueItems) return;
+
+    const info = this.acceptedQueue.get('setlist') as QueueInfo | null | undefined;
+    const entries = this.getQueueEntries().filter(
+      (entry) => entry.queueId === info?.id && this.canQueue(entry) !== false
+    );
+    const present = new Set(entries.map((entry) => entry.id));
+    const previous = this.hostQueueEntries;
+    this.hostQueueEntries = entries;
+
+    const missing = local ? [] : previous.filter((entry) => entry.queueId === info?.id && !present.has(entry.id));
+    if (missing.length === 0) return;
+
+    console.warn('[SessionManager] Restoring queue items deleted without permission:', missing.length);
+    const queueItems = this.queueItems;
+    this.sessionDoc.transact(() => {
+      for (const entry of missing) {
+        const after = previous
+          .slice(0, previous.indexOf(entry))
+          .reverse()
+          .find((prior) => present.has(prior.id));
+        const to = after ? this.getQueueEntries().findIndex((e) => e.id === after.id) + 1 : 0;
+        queueItems.insert(to, [entry]);
+        present.add(entry.id);
+      }
+    });
+  }
+
+  // ============================================================================
+  // Chat
+  // ============================================================================
+
+  /**
+   * Send a chat message, song request or reaction as this user
+   */
+  sendMessage(message: Pick<SessionMessage, 'type' | 'text' | 'songId' | 'targetId'>): void {
+    if (!this.chatMap || this.isMuted(this.user.id)) return;
+
+    const full: SessionMessage = {
+      ...message,
+      id: generateId(),
+      userId: this.user.id,
+      displayName: this.user.displayName,
+      createdAt: Date.now(),
+    };
+    if (!this.isValidMessage(full)) return;
+
+    this.chatMap.set(full.id, this.authored(full));
+  }
+
+  /**
+   * Messages to show, oldest first, without cleared ones or ones from
+   * muted participants
+   */
+  getMessages(): SessionMessage[] {
+    const cleared = new Set(this.acceptedModeration.get('cleared') ?? []);
+    return Array.from(this.acceptedMessages.values())
+      .filter((m) => !cleared.has(m.id) && !this.isMuted(m.userId))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  isMuted(userId: string): boolean {
+    return this.getMutedUserIds().includes(userId);
+  }
+
+  getMutedUserIds(): string[] {
+    return this.acceptedModeration.get('muted') ?? [];
+  }
+
+  /**
+   * Mute or unmute a participant (host only). Their messages are hidden
+   * and new ones ignored.
+   */
+  muteParticipant(userId: string, muted: boolean): void {
+    if (!this.moderationMap || !this.can('moderate_chat') || userId === this.user.id) return;
+
+    const current = this.acceptedModeration.get('muted') ?? [];
+    const next = muted ? [...new Set([...current, userId])] : current.filter((id) => id !== userId);
+    this.moderationMap.set('muted', this.authored(next));
+  }
+
+  /**
+   * Clear the chat for everyone (host only)
+   */
+  clearChat(): void {
+    if (!this.chatMap || !this.moderationMap || !this.can('moderate_chat')) return;
+
+    const cleared = [...new Set([...(this.acceptedModeration.get('cleared') ?? []), ...this.chatMap.keys()])];
+    this.sessionDoc?.transact(() => {
+      this.moderationMap?.set('cleared', this.authored(cleared));
+      // Frees the space; receivers go by the cleared list since deletions carry no author
+      for (const id of cleared) this.chatMap?.delete(id);
+    });
+  }
+
+  /**
+   * Observe chat changes. Returns a cleanup function.
+   */
+  observeChat(callback: (messages: SessionMessage[]) => void): () => void {
+    const handler = (event: unknown) => {
+      callback((event as { messages: SessionMessage[] }).messages);
+    };
+
+    this.on('chat-changed', handler);
+    return () => this.off('chat-changed', handler);
+  }
+
+  private checkModerationChanges(keys: Iterable<string>): void {
+    if (!this.moderationMap) return;
+
+    let changed = false;
+    this.guardChanges(this.moderationMap, keys, 'moderate_chat', this.acceptedModeration, () => {
+      changed = true;
+    });
+    if (changed) this.emit('chat-changed', [{ messages: this.getMessages() }]);
+  }
+
+  /**
+   * Accept messages whose writer is the user they name, unless that user
+   * is muted
+   */
+  private checkChatChanges(keys: Iterable<string>): void {
+    if (!this.chatMap) return;
+
+    const received: SessionMessage[] = [];
+    for (const key of keys) {
+      const authored = this.chatMap.get(key);
+      if (!authored || this.acceptedMessages.has(key)) continue;
+
+      // Unknown author: keep it pending until their awareness arrives
+      const authorId = this.getClientUserId(authored.client);
+      if (!authorId) continue;
+
+      const message = authored.value;
+      if (
+        authorId !== authored.userId ||
+        authorId !== message.userId ||
+        message.id !== key ||
+        !this.isValidMessage(message)
+      ) {
+        console.warn('[SessionManager] Ignoring invalid chat message:', key);
+        continue;
+      }
+      if (this.isMuted(authorId)) continue;
+
+      this.acceptedMessages.set(key, message);
+      received.push(message);
+    }
+
+    if (received.length > 0) {
+      for (const message of received) {
+        this.emit('message-received', [{ message }]);
+      }
+      this.emit('chat-changed', [{ messages: this.getMessages() }]);
+    }
+  }
+
+  private isValidMessage(message: SessionMessage): boolean {
+    const text = message.text?.trim() ?? '';
+    switch (message.type) {
+      case 'text':
+        return text.length > 0 && text.length <= MAX_CHAT_MESSAGE_LENGTH;
+      case 'song-request':
+        return !!message.songId && this.storedManifest.some((e) => e.id === message.songId);
+      case 'reaction':
+        return text.length > 0 && text.length <= MAX_REACTION_LENGTH;
+      default:
+        return false;
+    }
+  }
+
+  // ============================================================================
+  // Session Roles
+  // ============================================================================
+
+  /**
+   * Role of a user in the active session. The session host is always
+   * 'host'; everyone else has the role the host granted, or 'follower'.
+   */
+  getRole(userId: string): SessionRole {
+    if (this.activeSession && userId === this.activeSession.hostId) return 'host';
+
+    const granted = this.grantedRoles.get(userId);
+    return granted && granted !== 'host' ? granted : 'follower';
+  }
+
+  /**
+   * This device's role in the active session
+   */
+  get role(): SessionRole {
+    return this.getRole(this.user.id);
+  }
+
+  /**
+   * Whether this device's role allows an action in the active session
+   */
+  can(permission: SessionPermission): boolean {
+    return hasSessionPermission(this.role, permission);
+  }
+
+  /**
+   * Grant a session role to a participant (host only)
+   */
+  setParticipantRole(userId: string, role: Exclude<SessionRole, 'host'>): void {
+    if (!this.rolesMap || !this.can('manage_roles')) return;
+    if (this.activeSession && userId === this.activeSession.hostId) return;
+
+    // Demotions are written rather than deleted: deletions carry no author,
+    // so receivers couldn't check who made them
+    this.rolesMap.set(userId, this.authored(role));
+  }
+
+  /**
+   * A value for a guarded shared map, as written by this device
+   */
+  private authored<T>(value: T): Authored<T> {
+    return { value, userId: this.user.id, client: this.sessionDoc?.clientID ?? 0 };
+  }
+
+  /**
+   * User a Yjs client is bound to, or undefined if it can't be identified
+   * yet
+   */
+  private getClientUserId(client: number): string | undefined {
+    return client === this.sessionDoc?.clientID ? this.user.id : this.clientUserIds.get(client);
+  }
+
+  /**
+   * Role of whoever wrote a shared value, or null if their client can't be
+   * identified yet. A value naming someone other than the user its client
+   * is bound to gets no permissions.
+   */
+  private getAuthorRole(authored: Pick<Authored<unknown>, 'userId' | 'client'>): SessionRole | null {
+    const userId = this.getClientUserId(authored.client);
+    if (!userId) return null;
+    return userId === authored.userId ? this.getRole(userId) : 'follower';
+  }
+
+  /**
+   * Check changed keys of a shared map against the author's role. Accepted
+   * values are recorded and reported; rejected ones are ignored, and the
+   * host writes the last accepted value back so the doc converges.
+   */
+  private guardChanges<T>(
+    map: Y.Map<Authored<T>>,
+    keys: Iterable<string>,
+    permission: SessionPermission,
+    accepted: Map<string, T>,
+    onAccepted: (key: string, value: T, userId: string) => void
+  ): void {
+    for (const key of keys) {
+      // Deletions carry no author; only accept ones matching what we allowed
+      const authored = map.get(key);
+      if (!authored) continue;
+
+      const { value } = authored;
+      if (accepted.has(key) && accepted.get(key) === value) continue;
+
+      const authorRole = this.getAuthorRole(authored);
+      // Unknown author: keep it pending until their awareness arrives
+      if (authorRole === null) continue;
+
+      if (!hasSessionPermission(authorRole, permission)) {
+        console.warn('[SessionManager] Ignoring change without permission:', permission, key);
+        if (this.isHosting && this.activeSession) {
+          const previous = accepted.get(key);
+          if (previous !== undefined) {
+            map.set(key, this.authored(previous));
+          } else {
+            map.delete(key);
+          }
+        }
+        continue;
+      }
+
+      accepted.set(key, value);
+      onAccepted(key, value, authored.userId);
+    }
+  }
+
+  private checkRoleChanges(keys: Iterable<string>): void {
+    if (!this.rolesMap) return;
+
+    let changed = false;
+    this.guardChanges(this.rolesMap, keys, 'manage_roles', this.grantedRoles, () => {
+      changed = true;
+    });
+    if (changed) this.handleRolesChanged();
+  }
+
+  private checkTransposeChanges(keys: Iterable<string>): void {
+    if (!this.transposeStateMap) return;
+    this.guardChanges(this.transposeStateMap, keys, 'transpose', this.acceptedTranspose, (songId, semitones) => {
+      const playing = this.playedSongs.at(-1);
+      if (playing?.songId === songId && playing.transpositions.at(-1) !== semitones) {
+        playing.transpositions.push(semitones);
+      }
+      this.emit('transpose-changed', [{ songId, semitones }]);
+    });
+  }
+
+  private checkNowPlayingChanges(keys: Iterable<string>): void {
+    if (!this.nowPlayingMap) return;
+    this.guardChanges(this.nowPlayingMap, keys, 'change_song', this.acceptedNowPlaying, (_key, nowPlaying) => {
+      this.recordPlayedSong(nowPlaying);
+      this.emit('now-playing-changed', [{ nowPlaying }]);
+    });
+  }
+
+  private checkQueueChanges(keys: Iterable<string>): void {
+    if (!this.queueMap) return;
+    this.guardChanges(this.queueMap, keys, 'change_song', this.acceptedQueue, () => {});
+    this.refreshQueue();
+  }
+
+  private checkContentChanges(keys: Iterable<string>): void {
+    if (!this.songContentMap) return;
+    this.guardChanges(this.songContentMap, keys, 'edit_content', this.acceptedContent, (key, content, userId) =>
+      this.emit('content-changed', [{ key, content, userId }])
+    );
+  }
+
+  /**
+   * Re-check every shared value, e.g. once the host or a new participant's
+   * identity is known. Roles go first since the other checks depend on them.
+   */
+  private revalidateSharedState(): void {
+    if (this.rolesMap) this.checkRoleChanges(Array.from(this.rolesMap.keys()));
+    if (this.transposeStateMap) this.checkTransposeChanges(Array.from(this.transposeStateMap.keys()));
+    if (this.songContentMap) this.checkContentChanges(Array.from(this.songContentMap.keys()));
+    if (this.nowPlayingMap) this.checkNowPlayingChanges(Array.from(this.nowPlayingMap.keys()));
+    if (this.queueMap) this.checkQueueChanges(Array.from(this.queueMap.keys()));
+    if (this.moderationMap) this.checkModerationChanges(Array.from(this.moderationMap.keys()));
+    if (this.chatMap) this.checkChatChanges(Array.from(this.chatMap.keys()));
+  }
+
+  private handleRolesChanged(): void {
+    const awareness = this.awareness;
+    const current = awareness?.getLocalState()?.user as AwarenessParticipant | undefined;
+    if (awareness && current && current.role !== this.role) {
+      awareness.setLocalStateField('user', { ...current, role: this.role });
+      this.emit('role-changed', [{ role: this.role }]);
+    }
+
+    // Newly granted roles may make pending changes acceptable
+    if (this.transposeStateMap) this.checkTransposeChanges(Array.from(this.transposeStateMap.keys()));
+    if (this.songContentMap) this.checkContentChanges(Array.from(this.songContentMap.keys()));
+    if (this.nowPlayingMap) this.checkNowPlayingChanges(Array.from(this.nowPlayingMap.keys()));
+    if (this.queueMap) this.checkQueueChanges(Array.from(this.queueMap.keys()));
+
+    this.emit('participants-changed', [{ participants: this.getParticipants() }]);
   }
 
   // ============================================================================
@@ -856,21 +1911,121 @@ export class SessionManager extends Observable {
   // Local Network Transport
   // ============================================================================
 
+  /**
+   * Host over the local network relay running on this device
+   * (gigwidget-relay, or the desktop app's sidecar). The host opens the
+   * session on the relay over localhost; joiners use its LAN addresses.
+   */
   private async initLocalNetworkHost(session: Session): Promise<void> {
-    // Local network transport requires native platform support
-    // This is a placeholder for Capacitor/Tauri implementations
-    console.warn('Local network transport not yet implemented');
+    if (!this.sessionDoc) throw new Error('Session doc not initialized');
+
+    const info = session.connectionInfo;
+    if (info.type !== 'local-network') throw new Error('Invalid connection info');
+
+    const relayInfo = await this.getLocalRelayInfo();
+    if (relayInfo.addresses.length === 0) {
+      throw new Error('This device is not connected to a local network');
+    }
+
+    info.addresses = relayInfo.addresses;
+    info.port = relayInfo.port;
+    info.token ||= generateId();
+    this.localRelayInfo = relayInfo;
+
+    console.log('[SessionManager] Hosting local network session:', {
+      roomId: session.id,
+      addresses: info.addresses,
+      port: info.port,
+    });
+
+    this.localNetworkProvider = new LocalNetworkProvider(this.sessionDoc, {
+      urls: [`ws://localhost:${this.localRelayPort}`],
+      sessionId: session.id,
+      token: info.token,
+    });
+
+    this.setupLocalNetworkListeners();
+    this.localNetworkProvider.connect();
+  }
+
+  private async connectLocalNetwork(session: Session): Promise<void> {
+    if (!this.sessionDoc) throw new Error('Session doc not initialized');
 
-    if (session.connectionInfo.type === 'local-network') {
-      session.connectionInfo.addresses = ['192.168.1.1']; // Placeholder
-      session.connectionInfo.port = 8080;
-      session.connectionInfo.token = generateId();
+    const info = session.connectionInfo;
+    if (info.type !== 'local-network') throw new Error('Invalid connection info');
+
+    // Mixed content: a page loaded over https can't open ws:// to the LAN
+    if (typeof location !== 'undefined' && location.protocol === 'https:') {
+      throw new Error("Local network sessions can't be joined from this page. Open the host's session link instead.");
     }
+
+    console.log('[SessionManager] Joining local network session:', {
+      roomId: session.id,
+      addresses: info.addresses,
+      port: info.port,
+    });
+
+    this.localNetworkProvider = new LocalNetworkProvider(this.sessionDoc, {
+      urls: info.addresses.map((address) => `ws://${address}:${info.port}`),
+      sessionId: session.id,
+      token: info.token,
+    });
+
+    this.setupLocalNetworkListeners();
+    this.localNetworkProvider.connect();
   }
 
-  private async connectLocalNetwork(_session: Session): Promise<void> {
-    // Placeholder for native implementation
-    console.warn('Local network transport not yet implemented');
+  /**
+   * Base URLs (http://<address>:<port>) joiners open to load the app from
+   * the relay, so their browsers may connect to it. Empty unless hosting
+   * over a relay that serves the app.
+   */
+  getLocalNetworkAppUrls(): string[] {
+    const relay = this.localRelayInfo;
+    if (!this.isHosting || !relay?.servesApp) return [];
+    return relay.addresses.map((address) => `http://${address}:${relay.port}`);
+  }
+
+  /**
+   * Ask the relay on this device for its LAN addresses
+   */
+  private async getLocalRelayInfo(): Promise<LocalRelayInfo> {
+    try {
+      const response = await fetch(`http://localhost:${this.localRelayPort}/info`);
+      if (!response.ok) throw new Error(`Relay responded with ${response.status}`);
+      return (await response.json()) as LocalRelayInfo;
+    } catch (err) {
+      console.error('[SessionManager] Local relay unavailable:', err);
+      throw new Error(`No local network relay is running on port ${this.localRelayPort}`);
+    }
+  }
+
+  private setupLocalNetworkListeners(): void {
+    if (!this.localNetworkProvider) return;
+
+    this.initContentSharing();
+    this.setupAwareness(this.localNetworkProvider.awareness);
+
+    const awareness = this.localNetworkProvider.awareness;
+    awareness.on('change', () => {
+      // Everyone else on the relay is a peer
+      this.emit('peers-changed', [{ count: Math.max(awareness.getStates().size - 1, 0), transport: 'local-network' }]);
+    });
+
+    this.localNetworkProvider.on('synced', (event: unknown) => {
+      const { synced } = event as { synced: boolean };
+      console.log('[SessionManager] Local network synced:', synced);
+      this.emit('sync-status', [{ synced, transport: 'local-network' }]);
+    });
+
+    this.localNetworkProvider.on('status', (event: unknown) => {
+      const { connected } = event as { connected: boolean };
+      console.log('[SessionManager] Local network status:', connected ? 'connected' : 'disconnected');
+    });
+
+    this.localNetworkProvider.on('error', (error: unknown) => {
+      this.emit('error', [error]);
+    });
   }
 
   /**
@@ -885,8 +2040,9 @@ export class SessionManager extends Observable {
 
   /**
    * Resume hosting an existing session after a crash or reconnect.
-   * Reconnects to the same y-webrtc room using the stored QR payload,
-   * so joiners who are still connected will re-discover the host.
+   * Reconnects to the same y-webrtc room or local relay session using the
+   * stored QR payload, so joiners who are still connected will re-discover
+   * the host.
    */
   async resumeSession(
     payload: QRSessionPayload,
@@ -911,13 +2067,91 @@ export class SessionManager extends Observable {
 
     if (session.type === 'webrtc') {
       await this.initWebRTCHost(session, options.password);
+    } else if (session.type === 'local-network') {
+      await this.initLocalNetworkHost(session);
     }
 
+    this.startTranscript(this.user.displayName);
+
     const resumedPayload: QRSessionPayload = { ...payload, libraryManifest: [] };
     this.emit('session-created', [{ session, qrPayload: resumedPayload, songManifest }]);
     return resumedPayload;
   }
 
+  // ============================================================================
+  // Session History
+  // ============================================================================
+
+  private startTranscript(hostName: string | undefined): void {
+    this.transcriptHostName = hostName;
+    this.seenParticipants.clear();
+    this.playedSongs = [];
+    this.recordParticipants(this.getParticipants());
+    this.recordPlayedSong(this.getNowPlaying());
+  }
+
+  /**
+   * Remember everyone who was in the session, with their latest details
+   */
+  private recordParticipants(participants: SessionParticipantInfo[]): void {
+    if (!this.activeSession) return;
+
+    const self = { userId: this.user.id, displayName: this.user.displayName, instruments: this.user.instruments };
+    for (const p of [self, ...participants]) {
+      this.seenParticipants.set(p.userId, {
+        sessionId: this.activeSession.id,
+        userId: p.userId,
+        displayName: p.displayName,
+        joinedAt: this.seenParticipants.get(p.userId)?.joinedAt ?? new Date(),
+        syncStatus: 'synced',
+        instruments: p.instruments,
+        role: this.getRole(p.userId),
+      });
+    }
+  }
+
+  /**
+   * Add the leader's song to the songs played, unless only its section
+   * or next up changed
+   */
+  private recordPlayedSong(nowPlaying: SessionNowPlaying | null): void {
+    if (!nowPlaying || this.playedSongs.at(-1)?.songId === nowPlaying.songId) return;
+
+    const entry = this.storedManifest.find((e) => e.id === nowPlaying.songId);
+    this.playedSongs.push({
+      songId: nowPlaying.songId,
+      title: entry?.title ?? 'Unknown song',
+      artist: entry?.artist,
+      arrangementId: nowPlaying.arrangementId,
+      playedAt: new Date(nowPlaying.updatedAt),
+      transpositions: [this.getTranspose(nowPlaying.songId)],
+    });
+  }
+
+  private buildTranscript(): SessionTranscript | null {
+    if (!this.activeSession) return null;
+
+    this.recordParticipants(this.getParticipants());
+    const { connectionInfo } = this.activeSession;
+
+    return {
+      session: {
+        ...this.activeSession,
+        // Credentials aren't kept in the history
+        connectionInfo:
+          connectionInfo.type === 'webrtc'
+            ? { ...connectionInfo, password: undefined }
+            : connectionInfo.type === 'local-network'
+              ? { ...connectionInfo, token: '' }
+              : connectionInfo,
+        endedAt: new Date(),
+        hostName: this.transcriptHostName,
+        playedSongs: this.playedSongs.map((song) => ({ ...song, transpositions: [...song.transpositions] })),
+      },
+      participants: Array.from(this.seenParticipants.values()),
+    };
+  }
+
   destroy(): void {
     this.leaveSession().catch(console.error);
     super.destroy();